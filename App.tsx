@@ -1,15 +1,20 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import BillScanner from './components/BillScanner';
 import ImageGenerator from './components/ImageGenerator';
 import ImageEditor from './components/ImageEditor';
 import Chatbot from './components/Chatbot';
+import { ACTIVE_PROVIDER_NAME } from './services/geminiService';
+import { subscribeToBlockedUpgrade } from './services/db';
 import { SparklesIcon, DocumentTextIcon, PhotoIcon, PaintBrushIcon, ChatBubbleLeftRightIcon } from './components/IconComponents';
 
 type Tool = 'scanner' | 'generator' | 'editor' | 'chat';
 
 const App: React.FC = () => {
   const [activeTool, setActiveTool] = useState<Tool>('scanner');
+  const [isStorageBlocked, setIsStorageBlocked] = useState(false);
+
+  useEffect(() => subscribeToBlockedUpgrade(setIsStorageBlocked), []);
 
   const renderTool = useCallback(() => {
     switch (activeTool) {
@@ -48,6 +53,11 @@ const App: React.FC = () => {
           <SparklesIcon className="w-8 h-8 text-blue-400" />
           <h1 className="text-xl font-bold text-white">Gemini Multi-Tool</h1>
         </div>
+        {ACTIVE_PROVIDER_NAME === 'mock' && (
+          <p className="mb-4 px-2 py-1 text-xs text-center font-semibold text-yellow-300 bg-yellow-900/40 rounded-md">
+            Offline mock mode
+          </p>
+        )}
         <nav className="flex md:flex-col justify-around md:justify-start md:gap-2">
           <NavButton tool="scanner" label="Bill Scanner" icon={<DocumentTextIcon className="w-5 h-5" />} />
           <NavButton tool="generator" label="Image Generator" icon={<PhotoIcon className="w-5 h-5" />} />
@@ -56,6 +66,11 @@ const App: React.FC = () => {
         </nav>
       </header>
       <main className="flex-1 p-4 sm:p-6 lg:p-8 overflow-y-auto">
+        {isStorageBlocked && (
+          <p className="mb-4 px-3 py-2 text-sm text-yellow-300 bg-yellow-900/40 rounded-md">
+            The app's storage is being upgraded. Close other tabs of this app to continue.
+          </p>
+        )}
         {renderTool()}
       </main>
     </div>
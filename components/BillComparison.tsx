@@ -0,0 +1,74 @@
+import React, { useMemo, useState } from 'react';
+import { BillData } from '../types';
+import { compareBills } from '../services/billComparison';
+import { CheckIcon, XMarkIcon } from './IconComponents';
+
+interface BillComparisonProps {
+  saved: BillData;
+  rescanned: BillData;
+  /** The model used for the rescan, shown in the column header. */
+  model: string;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Shows a saved bill next to a fresh extraction of the same image, so the user
+ * can decide which one to keep.
+ */
+const BillComparison: React.FC<BillComparisonProps> = ({ saved, rescanned, model, onAccept, onDiscard }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const rows = useMemo(() => compareBills(saved, rescanned), [saved, rescanned]);
+  const changedCount = rows.filter(row => row.changed).length;
+  const visibleRows = showUnchanged ? rows : rows.filter(row => row.changed);
+
+  return (
+    <div className="p-4 bg-gray-700 rounded-lg h-full flex flex-col">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-200">Compare Rescan</h3>
+          <p className="text-xs text-gray-400">
+            {changedCount === 0 ? 'The new extraction matches the saved data.' : `${changedCount} field${changedCount === 1 ? '' : 's'} differ.`}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-300">
+          <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)}
+            className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-500" />
+          Show unchanged
+        </label>
+      </div>
+
+      <div className="flex-grow overflow-y-auto">
+        <table className="w-full text-xs table-fixed">
+          <thead>
+            <tr className="text-left text-gray-400 uppercase border-b border-gray-600">
+              <th className="py-1.5 pr-2 w-20">Field</th>
+              <th className="py-1.5 pr-2">Saved</th>
+              <th className="py-1.5">Rescan <span className="normal-case text-gray-500">({model})</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(row => (
+              <tr key={row.label} className={`border-b border-gray-600/50 align-top ${row.changed ? 'bg-yellow-900/20' : ''}`}>
+                <td className="py-1.5 pr-2 font-semibold text-gray-400">{row.label}</td>
+                <td className={`py-1.5 pr-2 break-words ${row.changed ? 'text-red-300' : 'text-gray-300'}`}>{row.saved}</td>
+                <td className={`py-1.5 break-words ${row.changed ? 'text-green-300' : 'text-gray-300'}`}>{row.rescanned}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button onClick={onDiscard} className="w-full flex items-center justify-center gap-2 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg">
+          <XMarkIcon className="w-5 h-5"/> Keep Saved
+        </button>
+        <button onClick={onAccept} disabled={changedCount === 0} className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-600 disabled:cursor-not-allowed">
+          <CheckIcon className="w-5 h-5"/> Use Rescan
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BillComparison;
@@ -0,0 +1,373 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { BillData, BillItem, BillTaxLine, BillDiscount } from '../types';
+import { ExportFormat } from '../services/billExport';
+import { validateBill, recalculateTotals } from '../services/billAmounts';
+import { insertItem, removeItem, moveItem, splitItem } from '../services/billEditing';
+import ExportMenu from './ExportMenu';
+import {
+  BoldIcon, ItalicIcon, UnderlineIcon, PlusIcon, XMarkIcon, ExclamationTriangleIcon,
+  ChevronUpIcon, ChevronDownIcon, ScissorsIcon, TrashIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, ArrowPathIcon
+} from './IconComponents';
+
+export type ActiveField = { type: 'item' | 'total', index: number, field: string };
+
+type DetailField = 'merchantName' | 'merchantAddress' | 'transactionDate' | 'transactionTime' | 'currency' | 'paymentMethod';
+type AmountField = 'subtotal' | 'tip';
+
+interface BillResultDisplayProps {
+  billData: BillData;
+  /**
+   * Applies an edit to the bill. Every change in the editor goes through here.
+   * Edits sharing a `coalesceKey` (keystrokes in one field) may be undone as one step.
+   */
+  onChange: (updater: (prev: BillData) => BillData, coalesceKey?: string) => void;
+  activeField: ActiveField | null;
+  onActiveFieldChange: (field: ActiveField | null) => void;
+  onExport: (format: ExportFormat) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Restores the original AI extraction. Omitted when there is nothing to revert to. */
+  onRevert?: () => void;
+}
+
+const DETAIL_FIELDS: { field: DetailField; label: string; type: string; placeholder?: string; className?: string }[] = [
+  { field: 'merchantName', label: 'Merchant', type: 'text', className: 'col-span-2' },
+  { field: 'merchantAddress', label: 'Address', type: 'text', className: 'col-span-2' },
+  { field: 'transactionDate', label: 'Date', type: 'date' },
+  { field: 'transactionTime', label: 'Time', type: 'time' },
+  { field: 'currency', label: 'Currency', type: 'text', placeholder: 'e.g. USD' },
+  { field: 'paymentMethod', label: 'Payment', type: 'text', placeholder: 'e.g. Cash' },
+];
+
+const inputClassName = 'bg-gray-800 rounded px-2 py-1 text-sm w-full border border-transparent focus:border-blue-500 focus:ring-0';
+
+const FormattingToolbar: React.FC<{
+    onToggle: (format: 'Bold' | 'Italic' | 'Underline') => void,
+    field: string,
+    formatting: any
+}> = ({ onToggle, field, formatting }) => (
+    <div className="absolute -top-8 right-0 flex items-center bg-gray-800 border border-gray-600 rounded-md shadow-lg z-10">
+        {(['Bold', 'Italic', 'Underline'] as const).map(format => {
+            const Icon = { Bold: BoldIcon, Italic: ItalicIcon, Underline: UnderlineIcon }[format];
+            const key = `${field}${format}`;
+            const isActive = formatting && formatting[key];
+            return (
+                <button
+                    key={format}
+                    onMouseDown={(e) => e.preventDefault()} // Prevents input from losing focus
+                    onClick={() => onToggle(format)}
+                    className={`p-1.5 ${isActive ? 'text-blue-400 bg-gray-700' : 'text-gray-400 hover:text-white hover:bg-gray-700'} transition-colors`}
+                >
+                    <Icon className="w-4 h-4" />
+                </button>
+            );
+        })}
+    </div>
+);
+
+const BillResultDisplay: React.FC<BillResultDisplayProps> = ({
+  billData, onChange, activeField, onActiveFieldChange, onExport, canUndo, canRedo, onUndo, onRedo, onRevert
+}) => {
+  const validation = useMemo(() => validateBill(billData), [billData]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The input to focus after the next render, e.g. the name of a newly added row.
+  const pendingFocus = useRef<{ index: number, field: string } | null>(null);
+
+  useEffect(() => {
+    if (!pendingFocus.current) return;
+    const { index, field } = pendingFocus.current;
+    pendingFocus.current = null;
+    containerRef.current?.querySelector<HTMLInputElement>(`input[data-row="${index}"][data-field="${field}"]`)?.focus();
+  });
+
+  /** Applies an edit that may change an amount, keeping the subtotal and total in step. */
+  const changeAmounts = (updater: (prev: BillData) => BillData, coalesceKey?: string) => {
+    onChange(prevData => recalculateTotals(prevData, updater(prevData)), coalesceKey);
+  };
+
+  const handleDataChange = (
+    type: 'item' | 'total',
+    value: string | number,
+    index: number = 0,
+    field: 'name' | 'quantity' | 'price' = 'name'
+  ) => {
+    changeAmounts(prevData => {
+        if (type === 'total') {
+            return { ...prevData, total: value };
+        } else {
+            const newItems = [...prevData.items];
+            const updatedItem = { ...newItems[index], [field]: value };
+            newItems[index] = updatedItem;
+            return { ...prevData, items: newItems };
+        }
+    }, type === 'total' ? 'total' : `item-${index}-${field}`);
+  };
+
+  const handleFormatChange = (
+    type: 'item' | 'total',
+    format: 'Bold' | 'Italic' | 'Underline',
+    index: number = 0,
+    field: string
+  ) => {
+    onChange(prevData => {
+      // FIX: Replaced `typeof item` with `BillItem` to resolve a scoping issue where `item` was not defined.
+      const key = `${field}${format}` as keyof BillItem | keyof typeof prevData;
+
+      if (type === 'total') {
+        const newTotalFormatState = { ...prevData, [key]: !prevData[key as keyof typeof prevData] };
+        return newTotalFormatState;
+      } else {
+        const newItems = [...prevData.items];
+        const item = { ...newItems[index] };
+        const newFormatState = { ...item, [key]: !item[key as keyof typeof item] };
+        newItems[index] = newFormatState;
+        return { ...prevData, items: newItems };
+      }
+    });
+  };
+
+  const handleFieldChange = (field: DetailField | AmountField, value: string) => {
+    changeAmounts(prevData => ({ ...prevData, [field]: field === 'currency' ? value.toUpperCase() : value }), field);
+  };
+
+  const handleTaxChange = (index: number, field: keyof BillTaxLine, value: string) => {
+    changeAmounts(prevData => {
+      const taxes = [...(prevData.taxes ?? [])];
+      taxes[index] = { ...taxes[index], [field]: value };
+      return { ...prevData, taxes };
+    }, `tax-${index}-${field}`);
+  };
+
+  const handleDiscountChange = (index: number, field: keyof BillDiscount, value: string) => {
+    changeAmounts(prevData => {
+      const discounts = [...(prevData.discounts ?? [])];
+      discounts[index] = { ...discounts[index], [field]: value };
+      return { ...prevData, discounts };
+    }, `discount-${index}-${field}`);
+  };
+
+  const addTax = () => onChange(prevData => ({ ...prevData, taxes: [...(prevData.taxes ?? []), { label: 'Tax', amount: '' }] }));
+  const removeTax = (index: number) => changeAmounts(prevData => ({ ...prevData, taxes: (prevData.taxes ?? []).filter((_, i) => i !== index) }));
+  const addDiscount = () => onChange(prevData => ({ ...prevData, discounts: [...(prevData.discounts ?? []), { description: 'Discount', amount: '' }] }));
+  const removeDiscount = (index: number) => changeAmounts(prevData => ({ ...prevData, discounts: (prevData.discounts ?? []).filter((_, i) => i !== index) }));
+
+  const focusRow = (index: number, field: string) => {
+    pendingFocus.current = { index, field };
+  };
+
+  const handleAddItem = (index: number = billData.items.length) => {
+    onChange(prevData => insertItem(prevData, index));
+    focusRow(index, 'name');
+  };
+
+  const handleRemoveItem = (index: number, field: string = 'name') => {
+    onChange(prevData => removeItem(prevData, index));
+    if (billData.items.length > 1) focusRow(Math.min(index, billData.items.length - 2), field);
+  };
+
+  const handleMoveItem = (index: number, offset: number, field: string = 'name') => {
+    const target = index + offset;
+    if (target < 0 || target >= billData.items.length) return;
+    onChange(prevData => moveItem(prevData, index, target));
+    focusRow(target, field);
+  };
+
+  const handleSplitItem = (index: number, field: string = 'name') => {
+    onChange(prevData => splitItem(prevData, index));
+    focusRow(index + 1, field);
+  };
+
+  /**
+   * Row shortcuts: Enter adds a row below, Alt+Enter splits the row,
+   * Alt+Up/Down moves it and Ctrl+Shift+Backspace deletes it.
+   */
+  const handleRowKeyDown = (event: React.KeyboardEvent<HTMLDivElement>, index: number) => {
+    if (!(event.target instanceof HTMLInputElement)) return;
+    const field = event.target.dataset.field ?? 'name';
+    const isCtrl = event.ctrlKey || event.metaKey;
+    if (event.key === 'Enter' && event.altKey) {
+      handleSplitItem(index, field);
+    } else if (event.key === 'Enter' && !isCtrl && !event.shiftKey) {
+      handleAddItem(index + 1);
+    } else if (event.key === 'Backspace' && isCtrl && event.shiftKey) {
+      handleRemoveItem(index, field);
+    } else if (event.key === 'ArrowUp' && event.altKey) {
+      handleMoveItem(index, -1, field);
+    } else if (event.key === 'ArrowDown' && event.altKey) {
+      handleMoveItem(index, 1, field);
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  const isActive = (type: 'item' | 'total', index: number, field: string) =>
+    activeField?.type === type && activeField.index === index && activeField.field === field;
+
+  return (
+    <div ref={containerRef} className="p-4 bg-gray-700 rounded-lg h-full overflow-y-auto" onBlur={(e) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+        onActiveFieldChange(null);
+      }
+    }}>
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+        <h3 className="text-lg font-semibold text-gray-200">Extracted Bill Details</h3>
+        <div className="flex items-center gap-1">
+          <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="p-1.5 rounded-md text-gray-300 hover:text-white hover:bg-gray-600 disabled:text-gray-500 disabled:hover:bg-transparent">
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="p-1.5 rounded-md text-gray-300 hover:text-white hover:bg-gray-600 disabled:text-gray-500 disabled:hover:bg-transparent">
+            <ArrowUturnRightIcon className="w-4 h-4" />
+          </button>
+          <button onClick={onRevert} disabled={!onRevert} title="Revert to the original AI extraction" className="p-1.5 rounded-md text-gray-300 hover:text-white hover:bg-gray-600 disabled:text-gray-500 disabled:hover:bg-transparent">
+            <ArrowPathIcon className="w-4 h-4" />
+          </button>
+          <ExportMenu onExport={onExport} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4 pb-4 border-b border-gray-600">
+        {DETAIL_FIELDS.map(({ field, label, type, placeholder, className }) => (
+          <div key={field} className={className}>
+            <label htmlFor={`bill-${field}`} className="block text-xs font-bold text-gray-400 uppercase mb-1">{label}</label>
+            <input id={`bill-${field}`} type={type} value={billData[field] ?? ''} placeholder={placeholder}
+              maxLength={field === 'currency' ? 3 : undefined}
+              onChange={e => handleFieldChange(field, e.target.value)}
+              className={inputClassName} />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-5 gap-2 text-xs font-bold text-gray-400 uppercase pb-2 border-b border-gray-600 mr-[4.5rem]">
+          <span className="col-span-2">Item</span>
+          <span className="text-center">Qty</span>
+          <span className="col-span-2 text-right">Price</span>
+        </div>
+        {billData.items.map((item, index) => (
+          <div key={index} className="group flex items-center gap-1" onKeyDown={e => handleRowKeyDown(e, index)}>
+            <div className="flex-1 grid grid-cols-5 gap-2 items-center">
+              <div className="col-span-2 relative">
+                <input type="text" value={item.name} data-row={index} data-field="name" aria-label="Item name"
+                  onFocus={() => onActiveFieldChange({type: 'item', index, field: 'name'})}
+                  onChange={e => handleDataChange('item', e.target.value, index, 'name')}
+                  className={`${inputClassName}
+                    ${item.nameBold ? 'font-bold' : ''} ${item.nameItalic ? 'italic' : ''} ${item.nameUnderline ? 'underline' : ''}`} />
+                {isActive('item', index, 'name') &&
+                  <FormattingToolbar onToggle={format => handleFormatChange('item', format, index, 'name')} field="name" formatting={item} />
+                }
+              </div>
+              <div className="relative">
+                <input type="text" value={item.quantity} data-row={index} data-field="quantity" aria-label="Item quantity"
+                  onFocus={() => onActiveFieldChange({type: 'item', index, field: 'quantity'})}
+                  onChange={e => handleDataChange('item', e.target.value, index, 'quantity')}
+                  className={`${inputClassName} text-center
+                    ${item.quantityBold ? 'font-bold' : ''} ${item.quantityItalic ? 'italic' : ''} ${item.quantityUnderline ? 'underline' : ''}`} />
+                {isActive('item', index, 'quantity') &&
+                  <FormattingToolbar onToggle={format => handleFormatChange('item', format, index, 'quantity')} field="quantity" formatting={item} />
+                }
+              </div>
+              <div className="col-span-2 relative">
+                <input type="text" value={item.price} data-row={index} data-field="price" aria-label="Item price"
+                  onFocus={() => onActiveFieldChange({type: 'item', index, field: 'price'})}
+                  onChange={e => handleDataChange('item', e.target.value, index, 'price')}
+                  className={`${inputClassName} text-right
+                    ${item.priceBold ? 'font-bold' : ''} ${item.priceItalic ? 'italic' : ''} ${item.priceUnderline ? 'underline' : ''}`} />
+                {isActive('item', index, 'price') &&
+                  <FormattingToolbar onToggle={format => handleFormatChange('item', format, index, 'price')} field="price" formatting={item} />
+                }
+              </div>
+            </div>
+            <div className="flex items-center opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+              <button onClick={() => handleMoveItem(index, -1)} disabled={index === 0} title="Move up (Alt+↑)" className="p-0.5 text-gray-400 hover:text-white disabled:text-gray-600"><ChevronUpIcon className="w-4 h-4" /></button>
+              <button onClick={() => handleMoveItem(index, 1)} disabled={index === billData.items.length - 1} title="Move down (Alt+↓)" className="p-0.5 text-gray-400 hover:text-white disabled:text-gray-600"><ChevronDownIcon className="w-4 h-4" /></button>
+              <button onClick={() => handleSplitItem(index)} title="Split row (Alt+Enter)" className="p-0.5 text-gray-400 hover:text-white"><ScissorsIcon className="w-4 h-4" /></button>
+              <button onClick={() => handleRemoveItem(index)} title="Delete row (Ctrl+Shift+Backspace)" className="p-0.5 text-gray-400 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+            </div>
+          </div>
+        ))}
+        <div className="flex justify-between items-center gap-2">
+          <button onClick={() => handleAddItem()} className="flex items-center gap-1 text-xs font-semibold text-blue-400 hover:text-blue-300">
+            <PlusIcon className="w-3.5 h-3.5" /> Add item
+          </button>
+          <span className="text-[11px] text-gray-500 hidden sm:inline">Enter: new row · Alt+Enter: split · Alt+↑/↓: move · Ctrl+Shift+⌫: delete</span>
+        </div>
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-gray-600 space-y-2 text-sm">
+        <div className="flex justify-end items-center gap-4">
+          <label htmlFor="bill-subtotal" className="font-semibold text-gray-400">Subtotal:</label>
+          <input id="bill-subtotal" type="text" value={billData.subtotal ?? ''} onChange={e => handleFieldChange('subtotal', e.target.value)}
+            className={`${inputClassName} text-right w-32`} />
+        </div>
+
+        {(billData.taxes ?? []).map((tax, index) => (
+          <div key={`tax-${index}`} className="flex justify-end items-center gap-2">
+            <button onClick={() => removeTax(index)} title="Remove tax line" className="p-1 text-gray-500 hover:text-red-400"><XMarkIcon className="w-4 h-4" /></button>
+            <input type="text" value={tax.label} onChange={e => handleTaxChange(index, 'label', e.target.value)} aria-label="Tax label"
+              className={`${inputClassName} w-28`} />
+            <input type="text" value={tax.rate ?? ''} placeholder="Rate" onChange={e => handleTaxChange(index, 'rate', e.target.value)} aria-label="Tax rate"
+              className={`${inputClassName} w-16 text-center`} />
+            <input type="text" value={tax.amount} onChange={e => handleTaxChange(index, 'amount', e.target.value)} aria-label="Tax amount"
+              className={`${inputClassName} text-right w-32`} />
+          </div>
+        ))}
+
+        {(billData.discounts ?? []).map((discount, index) => (
+          <div key={`discount-${index}`} className="flex justify-end items-center gap-2">
+            <button onClick={() => removeDiscount(index)} title="Remove discount" className="p-1 text-gray-500 hover:text-red-400"><XMarkIcon className="w-4 h-4" /></button>
+            <input type="text" value={discount.description} onChange={e => handleDiscountChange(index, 'description', e.target.value)} aria-label="Discount description"
+              className={`${inputClassName} w-44`} />
+            <span className="text-green-400">-</span>
+            <input type="text" value={discount.amount} onChange={e => handleDiscountChange(index, 'amount', e.target.value)} aria-label="Discount amount"
+              className={`${inputClassName} text-right w-32 text-green-300`} />
+          </div>
+        ))}
+
+        <div className="flex justify-end items-center gap-4">
+          <label htmlFor="bill-tip" className="font-semibold text-gray-400">Tip / Service:</label>
+          <input id="bill-tip" type="text" value={billData.tip ?? ''} onChange={e => handleFieldChange('tip', e.target.value)}
+            className={`${inputClassName} text-right w-32`} />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={addTax} className="flex items-center gap-1 text-xs font-semibold text-blue-400 hover:text-blue-300">
+            <PlusIcon className="w-3.5 h-3.5" /> Add tax
+          </button>
+          <button onClick={addDiscount} className="flex items-center gap-1 text-xs font-semibold text-blue-400 hover:text-blue-300">
+            <PlusIcon className="w-3.5 h-3.5" /> Add discount
+          </button>
+        </div>
+      </div>
+
+      {validation.warnings.length > 0 && (
+        <div role="alert" className="mt-4 p-3 bg-yellow-900/30 border border-yellow-600/50 rounded-lg text-sm text-yellow-200">
+          <div className="flex items-center gap-2 font-semibold mb-1">
+            <ExclamationTriangleIcon className="w-5 h-5 text-yellow-400" /> Please check these amounts before exporting
+          </div>
+          <ul className="list-disc list-inside space-y-0.5 text-yellow-100/90">
+            {validation.warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="mt-4 pt-4 border-t border-gray-600 flex justify-end items-center gap-4">
+        <span className="text-lg font-bold text-gray-300">Total{billData.currency ? ` (${billData.currency})` : ''}:</span>
+        <div className="relative">
+          <input type="text" value={billData.total}
+            onFocus={() => onActiveFieldChange({type: 'total', index: 0, field: 'total'})}
+            onChange={e => handleDataChange('total', e.target.value)}
+            className={`bg-gray-800 rounded px-2 py-1 text-lg font-bold text-right w-32 border border-transparent focus:border-blue-500 focus:ring-0
+              ${billData.totalBold ? 'font-bold' : ''} ${billData.totalItalic ? 'italic' : ''} ${billData.totalUnderline ? 'underline' : ''}`} />
+            {activeField?.type === 'total' &&
+                <FormattingToolbar onToggle={format => handleFormatChange('total', format, 0, 'total')} field="total" formatting={billData} />
+            }
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BillResultDisplay;
@@ -1,111 +1,504 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { analyzeBill, extractTextFromImage } from '../services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { analyzeBill, extractTextByPage, extractStructuredText, extractWithTemplate } from '../services/geminiService';
+import { OcrExportFormat, blockText, downloadOcr } from '../services/ocrExport';
+import {
+    DEFAULT_ADJUSTMENTS, DocumentAdjustments, DocumentFilter, Quad, defaultCorners, detectDocumentCorners, renderAdjustedImage, toCssFilter
+} from '../services/documentCleanup';
+import { downloadScans, ExportFormat } from '../services/billExport';
+import { EditHistory, createEditHistory, applyEdit, undo, redo } from '../services/editHistory';
+import {
+    HISTORY_PAGE_SIZE, RetentionPolicy, listScans, saveScan, clearScans, createScanRecord, blobToDataUrl, dataUrlToBlob,
+    createThumbnail, migrateLegacyHistory, applyRetentionPolicy, loadRetentionPolicy, saveRetentionPolicy, listAllScans, listTags
+} from '../services/scanHistoryStore';
+import {
+    EMPTY_SCAN_FILTER, ScanFilter, SpendingSummary as SpendingSummaryData, matchesFilter, normalizeTags, summarizeSpending, isFilterActive
+} from '../services/scanFilters';
+import { PayloadSize, preprocessImage } from '../services/imagePreprocessing';
+import {
+    BILL_TEMPLATE_ID, BUILT_IN_TEMPLATES, deleteTemplate, emptyTemplateResult, listTemplates, saveTemplate
+} from '../services/templateStore';
+import {
+    DEFAULT_QUEUE_CONCURRENCY, ScanQueueItem, cancelledStatus, collectDroppedFiles, createQueueItems, isFinished, nextQueueItems
+} from '../services/scanQueue';
 import Spinner from './Spinner';
+import ExportMenu from './ExportMenu';
+import BillResultDisplay, { ActiveField } from './BillResultDisplay';
+import BillComparison from './BillComparison';
+import ScanHistoryFilters from './ScanHistoryFilters';
+import SpendingSummary from './SpendingSummary';
+import TagEditor from './TagEditor';
+import ScanQueue from './ScanQueue';
+import OcrResultDisplay from './OcrResultDisplay';
+import StructuredOcrDisplay from './StructuredOcrDisplay';
+import ImageRegionOverlay, { ImageRegion } from './ImageRegionOverlay';
+import CropOverlay from './CropOverlay';
+import CameraCapture from './CameraCapture';
+import UploadOptimization from './UploadOptimization';
+import TemplateResultDisplay from './TemplateResultDisplay';
+import TemplateEditor from './TemplateEditor';
 import { 
     DocumentArrowUpIcon, DocumentTextIcon, SparklesIcon, ArrowDownTrayIcon, TrashIcon, ClockIcon,
-    PencilSquareIcon, SunIcon, ArrowUturnLeftIcon, CheckIcon, XMarkIcon, ClipboardDocumentIcon,
-    BoldIcon, ItalicIcon, UnderlineIcon
+    PencilSquareIcon, SunIcon, ArrowUturnLeftIcon, CheckIcon, XMarkIcon,
+    AdjustmentsHorizontalIcon, ChartBarIcon, ScissorsIcon, ContrastIcon, CameraIcon
 } from './IconComponents';
-// FIX: Imported `BillItem` to resolve a type error in `handleFormatChange`.
-import { BillData, ScanHistoryItem, BillItem } from '../types';
+import { BillData, ScanHistoryItem, ScanModel, SCAN_MODELS, OcrBlock, ExtractionTemplate, TemplateResult } from '../types';
 
-type ScanMode = 'bill' | 'ocr';
-type ActiveField = { type: 'item' | 'total', index: number, field: string };
+/** Extract the fields of a template (the bill is one of them), or extract all text. */
+type ScanMode = 'extract' | 'ocr';
+/** Plain text, or layout blocks and tables with their positions on the image. */
+type OcrFormat = 'text' | 'layout';
+
+const DOCUMENT_FILTERS: { filter: DocumentFilter; label: string }[] = [
+  { filter: 'none', label: 'Color' },
+  { filter: 'grayscale', label: 'Grayscale' },
+  { filter: 'threshold', label: 'Black & white' },
+];
+
+/** Delay before an edited bill is written back to the history store. */
+const HISTORY_SAVE_DELAY_MS = 500;
+/** Delay after the last change to the history filter before searching. */
+const FILTER_DELAY_MS = 250;
+
+/**
+ * Shows a stored thumbnail Blob, releasing its object URL when unmounted.
+ */
+const ScanThumbnail: React.FC<{ blob: Blob }> = ({ blob }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url
+    ? <img src={url} alt="bill thumbnail" className="w-12 h-12 object-cover rounded-md flex-shrink-0 bg-gray-800 border border-gray-600" />
+    : <div className="w-12 h-12 rounded-md flex-shrink-0 bg-gray-800 border border-gray-600" />;
+};
+
+/**
+ * Shows a PDF data URL through an object URL, since browsers refuse to
+ * embed large or data-scheme PDFs directly.
+ */
+const PdfPreview: React.FC<{ dataUrl: string }> = ({ dataUrl }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    dataUrlToBlob(dataUrl).then(blob => {
+      if (cancelled) return;
+      objectUrl = URL.createObjectURL(blob);
+      setUrl(objectUrl);
+    });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [dataUrl]);
+
+  return url
+    ? <iframe src={url} title="Uploaded PDF" className="w-full h-80 rounded-lg shadow-md flex-grow bg-white" />
+    : <div className="w-full h-80 rounded-lg bg-gray-800 flex-grow" />;
+};
+
+const isPdfDataUrl = (dataUrl: string | null): boolean => !!dataUrl?.startsWith('data:application/pdf');
 
 const BillScanner: React.FC = () => {
   const [image, setImage] = useState<string | null>(null);
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [imageFile, setImageFile] = useState<File | null>(null);
-  const [billData, setBillData] = useState<BillData | null>(null);
-  const [ocrText, setOcrText] = useState<string | null>(null);
+  const [billEdits, setBillEdits] = useState<EditHistory<BillData> | null>(null);
+  const billData = billEdits?.present ?? null;
+  const [ocrPages, setOcrPages] = useState<string[] | null>(null);
+  const [ocrFormat, setOcrFormat] = useState<OcrFormat>('text');
+  const [ocrBlocks, setOcrBlocks] = useState<OcrBlock[] | null>(null);
+  const [selectedOcrBlock, setSelectedOcrBlock] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [history, setHistory] = useState<ScanHistoryItem[]>([]);
-  const [scanMode, setScanMode] = useState<ScanMode>('bill');
+  const [hasMoreHistory, setHasMoreHistory] = useState<boolean>(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [retentionPolicy, setRetentionPolicy] = useState<RetentionPolicy>(loadRetentionPolicy);
+  const [isRetentionOpen, setIsRetentionOpen] = useState<boolean>(false);
+  const pendingHistorySaves = useRef(new Map<string, number>());
+  const [historyFilter, setHistoryFilter] = useState<ScanFilter>(EMPTY_SCAN_FILTER);
+  // The filter the loaded page reflects; it trails `historyFilter` while typing.
+  const [appliedFilter, setAppliedFilter] = useState<ScanFilter>(EMPTY_SCAN_FILTER);
+  const [isHistoryReady, setIsHistoryReady] = useState<boolean>(false);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [isSummaryOpen, setIsSummaryOpen] = useState<boolean>(false);
+  const [summaryScans, setSummaryScans] = useState<ScanHistoryItem[] | null>(null);
+  // Bumped after each write to the scan store, so the spending totals are read again.
+  const [storeRevision, setStoreRevision] = useState<number>(0);
+  const [scanMode, setScanMode] = useState<ScanMode>('extract');
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>(BUILT_IN_TEMPLATES);
+  const [templateId, setTemplateId] = useState<string>(BILL_TEMPLATE_ID);
+  const [templateResult, setTemplateResult] = useState<TemplateResult | null>(null);
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState<boolean>(false);
+  const [scanModel, setScanModel] = useState<ScanModel>('gemini-2.5-flash');
+  const [uploadSize, setUploadSize] = useState<PayloadSize | null>(null);
+  // A fresh extraction of the selected history entry, awaiting comparison.
+  const [rescanResult, setRescanResult] = useState<BillData | null>(null);
+  const [queue, setQueue] = useState<ScanQueueItem[]>([]);
+  const [queueConcurrency, setQueueConcurrency] = useState<number>(DEFAULT_QUEUE_CONCURRENCY);
+  // One token per running queue item; a missing or replaced token means the
+  // item was cancelled or retried and its result must be dropped.
+  const queueRuns = useRef(new Map<string, AbortController>());
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
   
   // Editing State
   const [isEditing, setIsEditing] = useState<boolean>(false);
   const [isHistoryView, setIsHistoryView] = useState<boolean>(false);
-  const [rotation, setRotation] = useState<number>(0);
-  const [brightness, setBrightness] = useState<number>(1);
-  const [tempRotation, setTempRotation] = useState<number>(0);
-  const [tempBrightness, setTempBrightness] = useState<number>(1);
+  // `image` is `originalImage` with `adjustments` applied; the editor changes a copy.
+  const [adjustments, setAdjustments] = useState<DocumentAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [tempAdjustments, setTempAdjustments] = useState<DocumentAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [isDetectingEdges, setIsDetectingEdges] = useState<boolean>(false);
+  const [isProcessingImage, setIsProcessingImage] = useState<boolean>(false);
   const [activeField, setActiveField] = useState<ActiveField | null>(null);
 
+  const activeTemplate = templates.find(t => t.id === templateId) ?? BUILT_IN_TEMPLATES[0];
+  // The bill template keeps its own view, history and batch scanning.
+  const isBillMode = scanMode === 'extract' && activeTemplate.id === BILL_TEMPLATE_ID;
+
   // UI State for animations
-  const [selectedHistoryId, setSelectedHistoryId] = useState<string | null>(null);
+  // The stored scan being viewed or edited. It is kept separately from
+  // `history` so edits still save when a filter hides it from the list.
+  const [selectedScan, setSelectedScan] = useState<ScanHistoryItem | null>(null);
+  const selectedHistoryId = selectedScan?.id ?? null;
   const [isClearing, setIsClearing] = useState<boolean>(false);
+  const [exportSelection, setExportSelection] = useState<string[]>([]);
+
+
+  const loadFirstHistoryPage = useCallback(async () => {
+    const page = await listScans(0, HISTORY_PAGE_SIZE, appliedFilter);
+    setHistory(page.items);
+    setHasMoreHistory(page.hasMore);
+  }, [appliedFilter]);
+
+  useEffect(() => {
+    const prepareHistory = async () => {
+      try {
+        await migrateLegacyHistory();
+        await applyRetentionPolicy(loadRetentionPolicy());
+        setKnownTags(await listTags());
+      } catch (e) {
+        console.error("Failed to load scan history", e);
+        setHistoryError('Scan history could not be loaded.');
+      }
+      setIsHistoryReady(true);
+    };
+    prepareHistory();
+  }, []);
 
+  useEffect(() => {
+    listTemplates()
+      .then(setTemplates)
+      .catch(e => console.error("Failed to load extraction templates", e));
+  }, []);
 
+  // Wait for a pause in typing before searching the whole history.
   useEffect(() => {
+    const timer = setTimeout(() => setAppliedFilter(historyFilter), FILTER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [historyFilter]);
+
+  useEffect(() => {
+    if (!isHistoryReady) return;
+    loadFirstHistoryPage().catch(e => {
+      console.error("Failed to load scan history", e);
+      setHistoryError('Scan history could not be loaded.');
+    });
+  }, [isHistoryReady, loadFirstHistoryPage]);
+
+  // Totals come from the store, read again only after it has been written to.
+  useEffect(() => {
+    if (!isSummaryOpen || !isHistoryReady) return;
+    let cancelled = false;
+    listAllScans(appliedFilter)
+      .then(scans => {
+        if (!cancelled) setSummaryScans(scans);
+      })
+      .catch(e => {
+        console.error("Failed to summarize scan history", e);
+        setHistoryError('Spending totals could not be calculated.');
+      });
+    return () => { cancelled = true; };
+  }, [isSummaryOpen, isHistoryReady, appliedFilter, storeRevision]);
+
+  // Edits still waiting to be saved are laid over the stored scans.
+  const spendingSummary = useMemo<SpendingSummaryData | null>(() => {
+    if (!summaryScans) return null;
+    const loaded = new Map(history.map(item => [item.id, item]));
+    return summarizeSpending(summaryScans.map(scan => loaded.get(scan.id) ?? scan));
+  }, [summaryScans, history]);
+
+  /**
+   * Replaces the selected scan, in the list and in the store, and stamps it
+   * as modified. The write is debounced so typing does not store the image
+   * again on every key.
+   */
+  const updateSelectedScan = useCallback((changed: ScanHistoryItem) => {
+    const scan = { ...changed, lastModified: Date.now() };
+    setSelectedScan(scan);
+    setHistory(prev => prev.map(item => item.id === scan.id ? scan : item));
+
+    const pending = pendingHistorySaves.current;
+    clearTimeout(pending.get(scan.id));
+    pending.set(scan.id, window.setTimeout(() => {
+      pending.delete(scan.id);
+      saveScan(scan).then(() => setStoreRevision(revision => revision + 1)).catch(e => {
+        console.error("Failed to save scan history", e);
+        setHistoryError('Your changes could not be saved to the scan history.');
+      });
+    }, HISTORY_SAVE_DELAY_MS));
+  }, []);
+
+  // Save edits to the bill back to the history entry it was loaded from.
+  useEffect(() => {
+    if (!billData || !selectedScan || selectedScan.billData === billData) return;
+    updateSelectedScan({ ...selectedScan, billData });
+  }, [billData, selectedScan, updateSelectedScan]);
+
+  const handleTagsChange = (tags: string[]) => {
+    if (!selectedScan) return;
+    updateSelectedScan({ ...selectedScan, tags });
+    setKnownTags(prev => normalizeTags([...prev, ...tags]).sort((a, b) => a.localeCompare(b)));
+  };
+
+  const handleLoadMoreHistory = async () => {
     try {
-      const storedHistory = localStorage.getItem('billScannerHistory');
-      if (storedHistory) {
-        setHistory(JSON.parse(storedHistory));
+      const page = await listScans(history.length, HISTORY_PAGE_SIZE, appliedFilter);
+      setHistory(prev => [...prev, ...page.items.filter(item => !prev.some(existing => existing.id === item.id))]);
+      setHasMoreHistory(page.hasMore);
+    } catch (e) {
+      console.error("Failed to load scan history", e);
+      setHistoryError('More scans could not be loaded.');
+    }
+  };
+
+  const handleRetentionSave = async () => {
+    try {
+      saveRetentionPolicy(retentionPolicy);
+      const removed = await applyRetentionPolicy(retentionPolicy);
+      if (removed.length > 0) {
+        setStoreRevision(revision => revision + 1);
+        setExportSelection(prev => prev.filter(id => !removed.includes(id)));
+        if (selectedHistoryId && removed.includes(selectedHistoryId)) setSelectedScan(null);
+        await loadFirstHistoryPage();
       }
+      setIsRetentionOpen(false);
     } catch (e) {
-      console.error("Failed to parse history from localStorage", e);
-      localStorage.removeItem('billScannerHistory');
+      console.error("Failed to apply retention policy", e);
+      setHistoryError('The retention policy could not be applied.');
     }
-  }, []);
+  };
 
   const resetStateForNewImage = (file: File) => {
     setImageFile(file);
     setIsHistoryView(false);
-    setBillData(null);
-    setOcrText(null);
+    setBillEdits(null);
+    setOcrPages(null);
+    setOcrBlocks(null);
+    setSelectedOcrBlock(null);
+    setTemplateResult(null);
     setError(null);
     setIsEditing(false);
-    setRotation(0);
-    setBrightness(1);
-    setTempRotation(0);
-    setTempBrightness(1);
-    setSelectedHistoryId(null);
+    setAdjustments(DEFAULT_ADJUSTMENTS);
+    setSelectedScan(null);
+    setRescanResult(null);
+    setUploadSize(null);
+  };
+
+  const loadImageFile = (file: File) => {
+    resetStateForNewImage(file);
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      setImage(result);
+      setOriginalImage(result);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  /**
+   * Loads a camera photo like an uploaded file. When the page outline was
+   * found, the editor opens with it so the perspective can be corrected.
+   */
+  const handleCameraCapture = async (dataUrl: string, corners: Quad | null) => {
+    setIsCameraOpen(false);
+    try {
+      const blob = await dataUrlToBlob(dataUrl);
+      resetStateForNewImage(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+      setImage(dataUrl);
+      setOriginalImage(dataUrl);
+      if (corners) {
+        setTempAdjustments({ ...DEFAULT_ADJUSTMENTS, corners });
+        setIsEditing(true);
+      }
+    } catch (e) {
+      console.error("Failed to load the camera photo", e);
+      setError('The camera photo could not be loaded.');
+    }
+  };
+
+  /** Opens a single file for editing; several bills go to the batch queue. */
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1 || !isBillMode) {
+      loadImageFile(files[0]);
+    } else {
+      setQueue(prev => [...prev, ...createQueueItems(files)]);
+    }
   };
 
   const handleImageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files[0]) {
-      const file = event.target.files[0];
-      resetStateForNewImage(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const result = reader.result as string;
-        setImage(result);
-        setOriginalImage(result);
-      };
-      reader.readAsDataURL(file);
+    if (event.target.files) handleFiles(Array.from(event.target.files));
+    event.target.value = '';
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    try {
+      handleFiles(await collectDroppedFiles(event.dataTransfer));
+    } catch (e) {
+      console.error("Failed to read dropped files", e);
+      setError('The dropped files could not be read.');
+    }
+  };
+
+  /**
+   * Stores a fresh scan and shows it at the top of the history when it
+   * matches the current filter.
+   */
+  const addScanToHistory = useCallback(async (imageDataUrl: string, result: BillData, model: ScanModel) => {
+    const newHistoryItem = await createScanRecord(imageDataUrl, result, model);
+    await saveScan(newHistoryItem);
+    const removed = await applyRetentionPolicy(retentionPolicy);
+    setStoreRevision(revision => revision + 1);
+    if (matchesFilter(newHistoryItem, appliedFilter)) {
+      setHistory(prev => [newHistoryItem, ...prev].filter(item => !removed.includes(item.id)));
+    } else if (removed.length > 0) {
+      setHistory(prev => prev.filter(item => !removed.includes(item.id)));
+    }
+    return newHistoryItem;
+  }, [retentionPolicy, appliedFilter]);
+
+  const processQueueItem = useCallback(async (item: ScanQueueItem) => {
+    const runs = queueRuns.current;
+    if (runs.has(item.id)) return;
+    const run = new AbortController();
+    runs.set(item.id, run);
+    const updateItem = (changes: Partial<ScanQueueItem>) =>
+      setQueue(prev => prev.map(queued => queued.id === item.id ? { ...queued, ...changes } : queued));
+
+    let analysis = item.analysis;
+    try {
+      if (!analysis) {
+        const upload = await preprocessImage(item.file);
+        const billData = await analyzeBill(upload.base64, upload.mimeType, scanModel, run.signal);
+        if (runs.get(item.id) !== run) return;
+        analysis = { imageDataUrl: upload.dataUrl, billData };
+        updateItem({ analysis });
+      }
+      const scan = await addScanToHistory(analysis.imageDataUrl, analysis.billData, scanModel);
+      if (runs.get(item.id) !== run) return;
+      updateItem({ status: 'done', scan });
+    } catch (e: any) {
+      if (runs.get(item.id) !== run) return;
+      console.error(`Failed to scan ${item.file.name}`, e);
+      updateItem({
+        status: 'failed',
+        error: analysis ? 'The scan could not be saved to the history.' : e.message || 'Failed to analyze the document.',
+      });
+    } finally {
+      if (runs.get(item.id) === run) {
+        runs.delete(item.id);
+      } else {
+        // A cancelled scan frees its slot only now that its request is over.
+        setQueue(prev => prev.map(queued => queued.id === item.id && queued.status === 'cancelling' ? { ...queued, status: 'cancelled' } : queued));
+      }
     }
+  }, [scanModel, addScanToHistory]);
+
+  // Start queued files whenever a slot is free.
+  useEffect(() => {
+    const ready = nextQueueItems(queue, queueConcurrency);
+    if (ready.length === 0) return;
+    const readyIds = ready.map(item => item.id);
+    setQueue(prev => prev.map(item => readyIds.includes(item.id) ? { ...item, status: 'scanning', error: undefined } : item));
+    ready.forEach(processQueueItem);
+  }, [queue, queueConcurrency, processQueueItem]);
+
+  const handleCancelQueueItem = (id: string) => {
+    queueRuns.current.get(id)?.abort();
+    queueRuns.current.delete(id);
+    setQueue(prev => prev.map(item => item.id === id && !isFinished(item) ? { ...item, status: cancelledStatus(item) } : item));
+  };
+
+  const handleCancelQueue = () => {
+    queueRuns.current.forEach(run => run.abort());
+    queueRuns.current.clear();
+    setQueue(prev => prev.map(item => isFinished(item) ? item : { ...item, status: cancelledStatus(item) }));
+  };
+
+  const handleRetryQueueItem = (id: string) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, status: 'queued', error: undefined } : item));
+  };
+
+  const handleOpenQueueItem = (item: ScanQueueItem) => {
+    if (!item.scan) return;
+    const scanId = item.scan.id;
+    handleHistoryClick(history.find(scan => scan.id === scanId) ?? item.scan);
   };
 
   const handleScan = useCallback(async () => {
-    if (!image || !imageFile) {
+    if (!image) {
       setError('Please upload an image first.');
       return;
     }
+    // Scanning a stored entry again keeps it, so the result can be compared.
+    const isRescan = isHistoryView && !!selectedScan && isBillMode;
     setIsLoading(true);
     setError(null);
-    setBillData(null);
-    setOcrText(null);
-    setSelectedHistoryId(null);
+    setOcrPages(null);
+    setOcrBlocks(null);
+    setSelectedOcrBlock(null);
+    setTemplateResult(null);
+    setRescanResult(null);
+    if (!isRescan) {
+      setBillEdits(null);
+      setSelectedScan(null);
+    }
 
     try {
-      const base64Data = image.split(',')[1];
-      if (scanMode === 'bill') {
-        const result = await analyzeBill(base64Data, imageFile.type);
-        setBillData(result);
-        
-        const newHistoryItem: ScanHistoryItem = {
-          id: new Date().toISOString(),
-          imageDataUrl: image,
-          billData: result,
-          timestamp: Date.now(),
-        };
-        const updatedHistory = [newHistoryItem, ...history].slice(0, 10);
-        setHistory(updatedHistory);
-        localStorage.setItem('billScannerHistory', JSON.stringify(updatedHistory));
+      const upload = await preprocessImage(image);
+      const { base64: base64Data, mimeType } = upload;
+      setUploadSize(upload);
+      if (isRescan) {
+        setRescanResult(await analyzeBill(base64Data, mimeType, scanModel));
+      } else if (isBillMode) {
+        const result = await analyzeBill(base64Data, mimeType, scanModel);
+        setBillEdits(createEditHistory(result));
+
+        try {
+          // Select the new entry so later corrections are saved back to it.
+          setSelectedScan(await addScanToHistory(upload.dataUrl, result, scanModel));
+        } catch (e) {
+          console.error("Failed to save scan history", e);
+          setHistoryError('This scan could not be saved to the history.');
+        }
+      } else if (scanMode === 'extract') {
+        const result = await extractWithTemplate(base64Data, mimeType, activeTemplate, scanModel);
+        setTemplateResult({ ...emptyTemplateResult(activeTemplate.fields), ...result });
       } else {
-        const result = await extractTextFromImage(base64Data, imageFile.type);
-        setOcrText(result);
+        if (ocrFormat === 'layout' && !isPdfDataUrl(image)) {
+          setOcrBlocks(await extractStructuredText(base64Data, mimeType));
+        } else {
+          setOcrPages(await extractTextByPage(base64Data, mimeType));
+        }
       }
     } catch (err: any) {
       setError(err.message || 'Failed to analyze the document. Please try again.');
@@ -113,124 +506,236 @@ const BillScanner: React.FC = () => {
     } finally {
       setIsLoading(false);
     }
-  }, [image, imageFile, history, scanMode]);
+  }, [image, isHistoryView, selectedScan, addScanToHistory, scanMode, isBillMode, activeTemplate, scanModel, ocrFormat]);
   
   const handleDownloadImage = () => {
     if (!image) return;
     const link = document.createElement('a');
     link.href = image;
-    link.download = imageFile?.name || 'document-image.png';
+    link.download = imageFile?.name || (isPdfDataUrl(image) ? 'document.pdf' : 'document-image.png');
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
   
-  const handleHistoryClick = (item: ScanHistoryItem) => {
-    setImage(item.imageDataUrl);
-    setOriginalImage(item.imageDataUrl);
-    setBillData(item.billData);
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    setTemplateResult(null);
+  };
+
+  const handleSaveTemplate = (template: ExtractionTemplate) => {
+    saveTemplate(template)
+      .then(() => setTemplates(prev => {
+        const custom = [...prev.filter(t => !t.builtIn && t.id !== template.id), template];
+        return [...BUILT_IN_TEMPLATES, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+      }))
+      .catch(e => {
+        console.error("Failed to save template", e);
+        setError('Failed to save the template.');
+      });
+    // The form follows the template's current fields, so drop results from an older version.
+    if (template.id === templateId) setTemplateResult(null);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    deleteTemplate(id)
+      .then(() => setTemplates(prev => prev.filter(t => t.id !== id)))
+      .catch(e => {
+        console.error("Failed to delete template", e);
+        setError('Failed to delete the template.');
+      });
+    if (id === templateId) handleTemplateChange(BILL_TEMPLATE_ID);
+  };
+
+  const handleHistoryClick = async (item: ScanHistoryItem) => {
+    let imageDataUrl: string;
+    try {
+      imageDataUrl = await blobToDataUrl(item.image);
+    } catch (e) {
+      console.error("Failed to read the stored image", e);
+      setHistoryError('The image for this scan could not be loaded.');
+      return;
+    }
+    setImage(imageDataUrl);
+    setOriginalImage(imageDataUrl);
+    setBillEdits(createEditHistory(item.billData));
     setImageFile(null); 
     setIsHistoryView(true);
     setIsEditing(false);
+    // Stored images already have any earlier edits applied.
+    setAdjustments(DEFAULT_ADJUSTMENTS);
     setError(null);
-    setSelectedHistoryId(item.id);
+    setSelectedScan(item);
+    setRescanResult(null);
+    setUploadSize(null);
   };
   
   const handleClearHistory = () => {
     if (history.length === 0) return;
     setIsClearing(true);
-    setTimeout(() => {
-        setHistory([]);
-        localStorage.removeItem('billScannerHistory');
+    setTimeout(async () => {
+        try {
+          await clearScans();
+          setStoreRevision(revision => revision + 1);
+          setHistory([]);
+          setSelectedScan(null);
+          setQueue(prev => prev.map(item => ({ ...item, scan: undefined })));
+          setHasMoreHistory(false);
+          setExportSelection([]);
+        } catch (e) {
+          console.error("Failed to clear scan history", e);
+          setHistoryError('Scan history could not be cleared.');
+        }
         setIsClearing(false);
     }, 500); // Wait for animation to complete
   };
 
-  const handleDataChange = (
-    type: 'item' | 'total', 
-    value: string | number, 
-    index: number = 0, 
-    field: 'name' | 'quantity' | 'price' = 'name'
-  ) => {
+  const handleExportCurrent = (format: ExportFormat) => {
     if (!billData) return;
-    setBillData(prevData => {
-        if (!prevData) return null;
-        if (type === 'total') {
-            return { ...prevData, total: value };
-        } else {
-            const newItems = [...prevData.items];
-            const updatedItem = { ...newItems[index], [field]: value };
-            newItems[index] = updatedItem;
-            return { ...prevData, items: newItems };
-        }
-    });
+    const historyItem = selectedScan;
+    downloadScans([{
+      id: historyItem?.id ?? new Date().toISOString(),
+      billData,
+      timestamp: historyItem?.timestamp ?? Date.now(),
+      tags: historyItem?.tags,
+    }], format, 'bill-scan');
   };
 
-  const handleFormatChange = (
-    type: 'item' | 'total',
-    format: 'Bold' | 'Italic' | 'Underline',
-    index: number = 0,
-    field: string
-  ) => {
-    if (!billData) return;
-    setBillData(prevData => {
-      if (!prevData) return null;
-      // FIX: Replaced `typeof item` with `BillItem` to resolve a scoping issue where `item` was not defined.
-      const key = `${field}${format}` as keyof BillItem | keyof typeof prevData;
-
-      if (type === 'total') {
-        const newTotalFormatState = { ...prevData, [key]: !prevData[key as keyof typeof prevData] };
-        return newTotalFormatState;
+  const handleExportSelected = (format: ExportFormat) => {
+    const selected = history.filter(item => exportSelection.includes(item.id));
+    if (selected.length === 0) return;
+    downloadScans(selected, format);
+  };
+
+  const toggleExportSelection = (id: string) => {
+    setExportSelection(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const updateBillData = useCallback((updater: (prev: BillData) => BillData, coalesceKey?: string) => {
+    setBillEdits(prev => prev ? applyEdit(prev, updater(prev.present), coalesceKey) : prev);
+  }, []);
+
+  const handleUndo = useCallback(() => setBillEdits(prev => prev && undo(prev)), []);
+  const handleRedo = useCallback(() => setBillEdits(prev => prev && redo(prev)), []);
+  const billEditorRef = useRef<HTMLDivElement>(null);
+
+  const originalBillData = selectedScan?.originalBillData;
+  const isPdf = isPdfDataUrl(image);
+
+  // The focused bill field, located on the image so it can be checked at a glance.
+  const activeFieldBox = activeField && billData
+    ? (activeField.type === 'item' ? billData.items[activeField.index]?.box : billData.totalBox)
+    : undefined;
+
+  const imageRegions: ImageRegion[] = isEditing ? [] : scanMode === 'ocr'
+    ? (ocrBlocks ?? []).flatMap((block, i) => block.box ? [{ id: String(i), box: block.box, label: blockText(block).split('\n')[0] }] : [])
+    : activeFieldBox ? [{ id: 'active-field', box: activeFieldBox }] : [];
+  const selectedRegionId = scanMode === 'ocr'
+    ? (selectedOcrBlock === null ? null : String(selectedOcrBlock))
+    : 'active-field';
+
+  // hOCR coordinates are in pixels, so the image size is needed.
+  const handleExportOcr = async (format: OcrExportFormat) => {
+    if (!image || !ocrBlocks) return;
+    try {
+      const img = new Image();
+      img.src = image;
+      await img.decode();
+      downloadOcr(ocrBlocks, format, { width: img.naturalWidth, height: img.naturalHeight });
+    } catch (e) {
+      console.error("Failed to export OCR result", e);
+      setError('The OCR result could not be exported.');
+    }
+  };
+
+  // Reverting is recorded as an ordinary edit, so it can itself be undone.
+  const handleRevertToOriginal = () => {
+    if (originalBillData) updateBillData(() => originalBillData);
+  };
+
+  // The rescan becomes the new original, since it came from a model run.
+  const handleAcceptRescan = () => {
+    if (!rescanResult || !selectedScan) return;
+    updateBillData(() => rescanResult);
+    updateSelectedScan({ ...selectedScan, billData: rescanResult, originalBillData: rescanResult, model: scanModel });
+    setRescanResult(null);
+  };
+
+  useEffect(() => {
+    if (!billEdits || isEditing) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Other text fields on the page (search, tags, filters) keep their native undo.
+      const target = event.target;
+      const isTextField = target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+      if (isTextField && !billEditorRef.current?.contains(target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        handleRedo();
       } else {
-        const newItems = [...prevData.items];
-        const item = { ...newItems[index] };
-        const newFormatState = { ...item, [key]: !item[key as keyof typeof item] };
-        newItems[index] = newFormatState;
-        return { ...prevData, items: newItems };
+        return;
       }
-    });
-  };
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [billEdits, isEditing, handleUndo, handleRedo]);
 
   const handleEditToggle = () => {
-    if (!isEditing) {
-        setTempRotation(rotation);
-        setTempBrightness(brightness);
-    }
+    if (!isEditing) setTempAdjustments(adjustments);
     setIsEditing(!isEditing);
   };
 
-  const handleSaveChanges = () => {
+  const updateTempAdjustments = (changes: Partial<DocumentAdjustments>) =>
+    setTempAdjustments(prev => ({ ...prev, ...changes }));
+
+  const handleDetectEdges = async () => {
     if (!originalImage) return;
+    setIsDetectingEdges(true);
+    try {
+      const corners = await detectDocumentCorners(originalImage);
+      if (corners) {
+        updateTempAdjustments({ corners });
+      } else {
+        // Nothing stood out from the background; let the user place the corners.
+        updateTempAdjustments({ corners: defaultCorners() });
+        setError('No document edges were found. Drag the corners to the page outline.');
+      }
+    } catch (e) {
+      console.error("Failed to detect document edges", e);
+      setError('Document edges could not be detected.');
+    } finally {
+      setIsDetectingEdges(false);
+    }
+  };
 
-    const img = new Image();
-    img.src = originalImage;
-    img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        const rad = tempRotation * Math.PI / 180;
-        const w = img.width;
-        const h = img.height;
-
-        const newWidth = Math.abs(w * Math.cos(rad)) + Math.abs(h * Math.sin(rad));
-        const newHeight = Math.abs(h * Math.cos(rad)) + Math.abs(w * Math.sin(rad));
-        
-        canvas.width = newWidth;
-        canvas.height = newHeight;
-        
-        ctx.filter = `brightness(${tempBrightness})`;
-        
-        ctx.translate(canvas.width / 2, canvas.height / 2);
-        ctx.rotate(rad);
-        ctx.drawImage(img, -w / 2, -h / 2);
-
-        const dataUrl = canvas.toDataURL('image/jpeg');
-        setImage(dataUrl);
-        setRotation(tempRotation);
-        setBrightness(tempBrightness);
-        setIsEditing(false);
-    };
+  const handleSaveChanges = async () => {
+    if (!originalImage) return;
+    setIsProcessingImage(true);
+    try {
+      const dataUrl = await renderAdjustedImage(originalImage, tempAdjustments);
+      setImage(dataUrl);
+      setAdjustments(tempAdjustments);
+      setIsEditing(false);
+      if (selectedScan) saveEditedImage(selectedScan, dataUrl);
+    } catch (e) {
+      console.error("Failed to process the image", e);
+      setError('The image could not be processed.');
+    } finally {
+      setIsProcessingImage(false);
+    }
+  };
+
+  const saveEditedImage = async (scan: ScanHistoryItem, dataUrl: string) => {
+    try {
+      const image = await dataUrlToBlob(dataUrl);
+      updateSelectedScan({ ...scan, image, thumbnail: await createThumbnail(image) });
+    } catch (e) {
+      console.error("Failed to save the edited image", e);
+      setHistoryError('The edited image could not be saved to the history.');
+    }
   };
   
   const EditorPanel = () => (
@@ -239,16 +744,37 @@ const BillScanner: React.FC = () => {
         <div className="space-y-6 flex-grow">
             <div>
                 <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
-                    <ArrowUturnLeftIcon className="w-5 h-5" /> Rotation: {tempRotation}°
+                    <ScissorsIcon className="w-5 h-5" /> Crop and perspective
                 </label>
                 <div className="flex gap-2">
-                    <button onClick={() => setTempRotation(r => (r - 90) % 360)} className="flex-1 bg-gray-800 hover:bg-gray-600 text-sm py-2 rounded">Rotate -90°</button>
-                    <button onClick={() => setTempRotation(r => (r + 90) % 360)} className="flex-1 bg-gray-800 hover:bg-gray-600 text-sm py-2 rounded">Rotate +90°</button>
+                    <button onClick={handleDetectEdges} disabled={isDetectingEdges} className="flex-1 flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-600 text-sm py-2 rounded disabled:text-gray-500">
+                        {isDetectingEdges ? <><Spinner size="sm" /> Detecting...</> : 'Detect edges'}
+                    </button>
+                    {tempAdjustments.corners ? (
+                        <button onClick={() => updateTempAdjustments({ corners: null })} className="flex-1 bg-gray-800 hover:bg-gray-600 text-sm py-2 rounded">Remove crop</button>
+                    ) : (
+                        <button onClick={() => updateTempAdjustments({ corners: defaultCorners() })} className="flex-1 bg-gray-800 hover:bg-gray-600 text-sm py-2 rounded">Crop manually</button>
+                    )}
+                </div>
+                {tempAdjustments.corners && <p className="text-xs text-gray-400 mt-2">Drag the corner handles on the image to the edges of the page.</p>}
+                <label className="flex items-center gap-2 text-sm text-gray-300 mt-3">
+                    <input type="checkbox" checked={tempAdjustments.deskew} onChange={e => updateTempAdjustments({ deskew: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-500" />
+                    Straighten tilted text (deskew)
+                </label>
+            </div>
+            <div>
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+                    <ArrowUturnLeftIcon className="w-5 h-5" /> Rotation: {tempAdjustments.rotation}°
+                </label>
+                <div className="flex gap-2">
+                    <button onClick={() => updateTempAdjustments({ rotation: (tempAdjustments.rotation - 90) % 360 })} className="flex-1 bg-gray-800 hover:bg-gray-600 text-sm py-2 rounded">Rotate -90°</button>
+                    <button onClick={() => updateTempAdjustments({ rotation: (tempAdjustments.rotation + 90) % 360 })} className="flex-1 bg-gray-800 hover:bg-gray-600 text-sm py-2 rounded">Rotate +90°</button>
                 </div>
             </div>
             <div>
                 <label htmlFor="brightness" className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
-                    <SunIcon className="w-5 h-5"/> Brightness: {Math.round(tempBrightness * 100)}%
+                    <SunIcon className="w-5 h-5"/> Brightness: {Math.round(tempAdjustments.brightness * 100)}%
                 </label>
                 <input
                     id="brightness"
@@ -256,148 +782,37 @@ const BillScanner: React.FC = () => {
                     min="0.5"
                     max="1.5"
                     step="0.05"
-                    value={tempBrightness}
-                    onChange={e => setTempBrightness(parseFloat(e.target.value))}
+                    value={tempAdjustments.brightness}
+                    onChange={e => updateTempAdjustments({ brightness: parseFloat(e.target.value) })}
                     className="w-full h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer"
                 />
             </div>
+            <div>
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+                    <ContrastIcon className="w-5 h-5"/> Scan mode
+                </label>
+                <div className="flex gap-1 p-1 rounded-lg bg-gray-800">
+                    {DOCUMENT_FILTERS.map(({ filter, label }) => (
+                        <button key={filter} onClick={() => updateTempAdjustments({ filter })}
+                            className={`flex-1 text-sm py-1.5 rounded-md transition-colors ${tempAdjustments.filter === filter ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
         </div>
         <div className="flex gap-2 mt-4">
             <button onClick={handleEditToggle} className="w-full flex items-center justify-center gap-2 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg">
                 <XMarkIcon className="w-5 h-5"/> Cancel
             </button>
-            <button onClick={handleSaveChanges} className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg">
-                <CheckIcon className="w-5 h-5"/> Apply
+            <button onClick={handleSaveChanges} disabled={isProcessingImage} className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-600 disabled:cursor-not-allowed">
+                {isProcessingImage ? <><Spinner /> Processing...</> : <><CheckIcon className="w-5 h-5"/> Apply</>}
             </button>
         </div>
     </div>
   );
 
-  const BillResultDisplay = () => {
-    if (!billData) return <p className="text-gray-500 text-center p-4">Scanned details will appear here...</p>;
-    
-    const FormattingToolbar: React.FC<{
-        type: 'item' | 'total',
-        index?: number,
-        field: string,
-        formatting: any
-    }> = ({ type, index = 0, field, formatting }) => (
-        <div className="absolute -top-8 right-0 flex items-center bg-gray-800 border border-gray-600 rounded-md shadow-lg z-10">
-            {(['Bold', 'Italic', 'Underline'] as const).map(format => {
-                const Icon = { Bold: BoldIcon, Italic: ItalicIcon, Underline: UnderlineIcon }[format];
-                const key = `${field}${format}`;
-                const isActive = formatting && formatting[key];
-                return (
-                    <button
-                        key={format}
-                        onMouseDown={(e) => e.preventDefault()} // Prevents input from losing focus
-                        onClick={() => handleFormatChange(type, format, index, field)}
-                        className={`p-1.5 ${isActive ? 'text-blue-400 bg-gray-700' : 'text-gray-400 hover:text-white hover:bg-gray-700'} transition-colors`}
-                    >
-                        <Icon className="w-4 h-4" />
-                    </button>
-                );
-            })}
-        </div>
-    );
-    
-    return (
-      <div className="p-4 bg-gray-700 rounded-lg h-full overflow-y-auto" onBlur={(e) => {
-        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
-          setActiveField(null);
-        }
-      }}>
-        <h3 className="text-lg font-semibold mb-3 text-gray-200">Extracted Bill Details</h3>
-        <div className="space-y-3">
-          <div className="grid grid-cols-5 gap-2 text-xs font-bold text-gray-400 uppercase pb-2 border-b border-gray-600">
-            <span className="col-span-2">Item</span>
-            <span className="text-center">Qty</span>
-            <span className="col-span-2 text-right">Price</span>
-          </div>
-          {billData.items.map((item, index) => (
-            <div key={index} className="grid grid-cols-5 gap-2 items-center">
-              <div className="col-span-2 relative">
-                <input type="text" value={item.name} 
-                  onFocus={() => setActiveField({type: 'item', index, field: 'name'})}
-                  onChange={e => handleDataChange('item', e.target.value, index, 'name')} 
-                  className={`bg-gray-800 rounded px-2 py-1 text-sm w-full border border-transparent focus:border-blue-500 focus:ring-0
-                    ${item.nameBold ? 'font-bold' : ''} ${item.nameItalic ? 'italic' : ''} ${item.nameUnderline ? 'underline' : ''}`} />
-                {activeField?.type === 'item' && activeField.index === index && activeField.field === 'name' &&
-                  <FormattingToolbar type="item" index={index} field="name" formatting={item} />
-                }
-              </div>
-              <div className="relative">
-                <input type="text" value={item.quantity} 
-                  onFocus={() => setActiveField({type: 'item', index, field: 'quantity'})}
-                  onChange={e => handleDataChange('item', e.target.value, index, 'quantity')} 
-                  className={`bg-gray-800 rounded px-2 py-1 text-sm text-center w-full border border-transparent focus:border-blue-500 focus:ring-0
-                    ${item.quantityBold ? 'font-bold' : ''} ${item.quantityItalic ? 'italic' : ''} ${item.quantityUnderline ? 'underline' : ''}`} />
-                {activeField?.type === 'item' && activeField.index === index && activeField.field === 'quantity' &&
-                  <FormattingToolbar type="item" index={index} field="quantity" formatting={item} />
-                }
-              </div>
-              <div className="col-span-2 relative">
-                <input type="text" value={item.price} 
-                  onFocus={() => setActiveField({type: 'item', index, field: 'price'})}
-                  onChange={e => handleDataChange('item', e.target.value, index, 'price')} 
-                  className={`bg-gray-800 rounded px-2 py-1 text-sm text-right w-full border border-transparent focus:border-blue-500 focus:ring-0
-                    ${item.priceBold ? 'font-bold' : ''} ${item.priceItalic ? 'italic' : ''} ${item.priceUnderline ? 'underline' : ''}`} />
-                {activeField?.type === 'item' && activeField.index === index && activeField.field === 'price' &&
-                  <FormattingToolbar type="item" index={index} field="price" formatting={item} />
-                }
-              </div>
-            </div>
-          ))}
-        </div>
-        <div className="mt-4 pt-4 border-t border-gray-600 flex justify-end items-center gap-4">
-          <span className="text-lg font-bold text-gray-300">Total:</span>
-          <div className="relative">
-            <input type="text" value={billData.total} 
-              onFocus={() => setActiveField({type: 'total', index: 0, field: 'total'})}
-              onChange={e => handleDataChange('total', e.target.value)} 
-              className={`bg-gray-800 rounded px-2 py-1 text-lg font-bold text-right w-32 border border-transparent focus:border-blue-500 focus:ring-0
-                ${billData.totalBold ? 'font-bold' : ''} ${billData.totalItalic ? 'italic' : ''} ${billData.totalUnderline ? 'underline' : ''}`} />
-              {activeField?.type === 'total' &&
-                  <FormattingToolbar type="total" field="total" formatting={billData} />
-              }
-          </div>
-        </div>
-      </div>
-    );
-  };
-  
-  const OcrResultDisplay = () => {
-    const [copied, setCopied] = useState(false);
-    if (!ocrText) return <p className="text-gray-500 text-center p-4">Extracted text will appear here...</p>;
-
-    const handleCopy = () => {
-        if (ocrText) {
-          navigator.clipboard.writeText(ocrText);
-          setCopied(true);
-          setTimeout(() => setCopied(false), 2000);
-        }
-    };
-    
-    return (
-        <div className="p-4 bg-gray-700 rounded-lg h-full flex flex-col">
-          <div className="flex justify-between items-center mb-3">
-            <h3 className="text-lg font-semibold text-gray-200">Extracted Text</h3>
-            <button onClick={handleCopy} className="flex items-center gap-2 text-sm bg-gray-600 hover:bg-gray-500 px-3 py-1.5 rounded-md transition-colors disabled:opacity-50">
-              {copied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <ClipboardDocumentIcon className="w-4 h-4" />}
-              {copied ? 'Copied!' : 'Copy'}
-            </button>
-          </div>
-          <textarea
-            readOnly
-            value={ocrText}
-            className="w-full flex-grow bg-gray-800 rounded p-2 text-sm text-gray-300 border border-gray-600 resize-none"
-            placeholder="No text extracted."
-          />
-        </div>
-    );
-  };
-
-  const ResultsDisplay = () => {
+  const renderResults = () => {
     if (isLoading) return <div className="flex justify-center items-center h-full"><Spinner /></div>;
     if (error) {
       return (
@@ -408,7 +823,7 @@ const BillScanner: React.FC = () => {
             <h4 className="font-semibold text-gray-300 mb-2">Troubleshooting Tips:</h4>
             <ul className="list-disc list-inside space-y-1">
               <li>Make sure the image is clear and not blurry.</li>
-              <li>Use the "Edit Image" tool to improve brightness.</li>
+              <li>Use the "Edit Image" tool to crop the page, straighten it or improve brightness.</li>
               <li>Ensure the document is upright using the rotate tool.</li>
               <li>Try taking a new photo in a well-lit area.</li>
             </ul>
@@ -417,7 +832,47 @@ const BillScanner: React.FC = () => {
       );
     }
     
-    return scanMode === 'bill' ? <BillResultDisplay /> : <OcrResultDisplay />;
+    if (scanMode === 'ocr') {
+      return ocrBlocks
+        ? <StructuredOcrDisplay blocks={ocrBlocks} selectedIndex={selectedOcrBlock} onSelect={setSelectedOcrBlock} onExport={handleExportOcr} />
+        : <OcrResultDisplay pages={ocrPages} />;
+    }
+    if (!isBillMode) {
+      return templateResult
+        ? <TemplateResultDisplay template={activeTemplate} result={templateResult} onChange={setTemplateResult} />
+        : <p className="text-gray-500 text-center p-4">Extracted fields will appear here...</p>;
+    }
+    if (!billData) return <p className="text-gray-500 text-center p-4">Scanned details will appear here...</p>;
+    if (rescanResult) {
+      return (
+        <BillComparison
+          saved={billData}
+          rescanned={rescanResult}
+          model={scanModel}
+          onAccept={handleAcceptRescan}
+          onDiscard={() => setRescanResult(null)}
+        />
+      );
+    }
+    return (
+      <div className="h-full flex flex-col gap-2">
+        {selectedScan && <TagEditor tags={selectedScan.tags ?? []} onChange={handleTagsChange} suggestions={knownTags} />}
+        <div ref={billEditorRef} className="flex-1 min-h-0">
+          <BillResultDisplay
+            billData={billData}
+            onChange={updateBillData}
+            activeField={activeField}
+            onActiveFieldChange={setActiveField}
+            onExport={handleExportCurrent}
+            canUndo={!!billEdits && billEdits.past.length > 0}
+            canRedo={!!billEdits && billEdits.future.length > 0}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onRevert={originalBillData && originalBillData !== billData ? handleRevertToOriginal : undefined}
+          />
+        </div>
+      </div>
+    );
   };
 
   return (
@@ -428,10 +883,10 @@ const BillScanner: React.FC = () => {
       </div>
        <div className="mb-6 flex justify-center p-1 rounded-lg bg-gray-900/50 max-w-sm mx-auto">
         <button
-          onClick={() => setScanMode('bill')}
-          className={`px-4 py-2 text-sm font-semibold rounded-md w-1/2 transition-colors ${scanMode === 'bill' ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700'}`}
+          onClick={() => setScanMode('extract')}
+          className={`px-4 py-2 text-sm font-semibold rounded-md w-1/2 transition-colors ${scanMode === 'extract' ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700'}`}
         >
-          Scan Bill
+          Extract Fields
         </button>
         <button
           onClick={() => setScanMode('ocr')}
@@ -442,89 +897,251 @@ const BillScanner: React.FC = () => {
       </div>
       
       <div className="grid md:grid-cols-3 gap-6">
-        <div className={scanMode === 'bill' ? 'md:col-span-2' : 'md:col-span-3'}>
+        <div className={isBillMode ? 'md:col-span-2' : 'md:col-span-3'}>
             <div className="grid md:grid-cols-2 gap-6">
-                <div className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-gray-600 rounded-lg bg-gray-800/50 h-full">
-                    {!image ? (
+                <div
+                    onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+                    onDragLeave={() => setIsDragging(false)}
+                    onDrop={handleDrop}
+                    className={`flex flex-col items-center justify-center p-6 border-2 border-dashed rounded-lg h-full transition-colors ${isDragging ? 'border-blue-500 bg-blue-900/20' : 'border-gray-600 bg-gray-800/50'}`}
+                >
+                    {isCameraOpen ? (
+                    <CameraCapture onCapture={handleCameraCapture} onClose={() => setIsCameraOpen(false)} />
+                    ) : !image ? (
                     <div className="text-center">
                         <DocumentArrowUpIcon className="mx-auto h-12 w-12 text-gray-500" />
                         <label htmlFor="file-upload" className="relative cursor-pointer mt-4 rounded-md font-semibold text-blue-500 hover:text-blue-400">
                         <span>Upload a document</span>
-                        <input id="file-upload" name="file-upload" type="file" className="sr-only" accept="image/*" onChange={handleImageChange} />
+                        <input id="file-upload" name="file-upload" type="file" className="sr-only" accept="image/*,application/pdf" multiple={isBillMode} onChange={handleImageChange} />
                         </label>
-                        <p className="text-xs leading-5 text-gray-400 mt-1">PNG, JPG, GIF up to 10MB</p>
+                        <p className="text-xs leading-5 text-gray-400 mt-1">PNG, JPG, GIF or multi-page PDF up to 10MB</p>
+                        {isBillMode && <p className="text-xs leading-5 text-gray-500">Drop several files or a folder to scan them in a batch.</p>}
+                        <button onClick={() => setIsCameraOpen(true)} className="mt-4 inline-flex items-center gap-2 text-sm font-semibold bg-gray-700 hover:bg-gray-600 text-gray-200 px-3 py-1.5 rounded-md transition-colors">
+                            <CameraIcon className="w-5 h-5" /> Use camera
+                        </button>
                     </div>
                     ) : (
                     <div className="w-full flex flex-col h-full">
-                        <img 
-                        src={image} 
-                        alt="Uploaded document" 
-                        className="w-full h-auto max-h-80 object-contain rounded-lg shadow-md flex-grow"
-                        style={{
-                            transform: isEditing ? `rotate(${tempRotation}deg)` : `rotate(${rotation}deg)`,
-                            filter: isEditing ? `brightness(${tempBrightness})` : `brightness(${brightness})`,
-                            transition: 'transform 0.2s, filter 0.2s',
-                        }}
+                        {isPdf ? <PdfPreview dataUrl={image} /> : isEditing && originalImage ? (
+                            tempAdjustments.corners ? (
+                                <CropOverlay
+                                    src={originalImage}
+                                    corners={tempAdjustments.corners}
+                                    onChange={corners => updateTempAdjustments({ corners })}
+                                    rotation={tempAdjustments.rotation}
+                                    imageStyle={{ filter: toCssFilter(tempAdjustments) }}
+                                />
+                            ) : (
+                                // The editor previews on the untouched original, since edits are re-applied from it.
+                                <ImageRegionOverlay
+                                    src={originalImage}
+                                    alt="Document being edited"
+                                    regions={[]}
+                                    selectedId={null}
+                                    style={{ transform: `rotate(${tempAdjustments.rotation}deg)`, transition: 'transform 0.2s' }}
+                                    imageStyle={{ filter: toCssFilter(tempAdjustments), transition: 'filter 0.2s' }}
+                                />
+                            )
+                        ) : (
+                        <ImageRegionOverlay
+                        src={image}
+                        alt="Uploaded document"
+                        regions={imageRegions}
+                        selectedId={selectedRegionId}
+                        onSelect={scanMode === 'ocr' ? id => setSelectedOcrBlock(Number(id)) : undefined}
                         />
+                        )}
                         <div className="mt-4 grid grid-cols-2 gap-2">
-                        <button onClick={handleScan} disabled={isLoading || isHistoryView || isEditing} className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed">
-                            {isLoading ? <><Spinner /> Analyzing...</> : <><SparklesIcon className="w-5 h-5" /> {scanMode === 'bill' ? 'Scan Bill' : 'Extract Text'}</>}
+                        {scanMode === 'ocr' && (
+                            <label className="col-span-2 flex items-center justify-between gap-2 text-sm text-gray-300">
+                                Output
+                                <select value={ocrFormat} onChange={e => setOcrFormat(e.target.value as OcrFormat)} disabled={isLoading}
+                                    className="bg-gray-700 rounded px-2 py-1 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0">
+                                    <option value="text">Plain text</option>
+                                    <option value="layout" disabled={isPdf}>Layout (blocks and tables)</option>
+                                </select>
+                            </label>
+                        )}
+                        {scanMode === 'extract' && (
+                            <div className="col-span-2 flex items-center justify-between gap-2 text-sm text-gray-300">
+                                <label htmlFor="scan-template">Template</label>
+                                <span className="flex items-center gap-1">
+                                    <select id="scan-template" value={activeTemplate.id} onChange={e => handleTemplateChange(e.target.value)} disabled={isLoading}
+                                        className="bg-gray-700 rounded px-2 py-1 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0">
+                                        {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+                                    </select>
+                                    <button onClick={() => setIsTemplateEditorOpen(true)} title="Manage templates" className="p-1 text-gray-400 hover:text-white">
+                                        <AdjustmentsHorizontalIcon className="w-5 h-5" />
+                                    </button>
+                                </span>
+                            </div>
+                        )}
+                        {scanMode === 'extract' && (
+                            <label className="col-span-2 flex items-center justify-between gap-2 text-sm text-gray-300">
+                                Model
+                                <select value={scanModel} onChange={e => setScanModel(e.target.value as ScanModel)} disabled={isLoading}
+                                    className="bg-gray-700 rounded px-2 py-1 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0">
+                                    {SCAN_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+                                </select>
+                            </label>
+                        )}
+                        <button onClick={handleScan} disabled={isLoading || isEditing} className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed">
+                            {isLoading ? <><Spinner /> Analyzing...</> : <><SparklesIcon className="w-5 h-5" /> {isBillMode ? (isHistoryView && selectedScan ? 'Rescan' : 'Scan Bill') : scanMode === 'extract' ? 'Extract Fields' : 'Extract Text'}</>}
                         </button>
-                        <button onClick={handleEditToggle} disabled={isHistoryView || !originalImage} className="w-full flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed">
+                        <button onClick={handleEditToggle} disabled={!originalImage || isPdf} className="w-full flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed">
                             <PencilSquareIcon className="w-5 h-5" /> {isEditing ? 'Cancel Edit' : 'Edit Image'}
                         </button>
-                        <button onClick={handleDownloadImage} disabled={isEditing} className="col-span-2 w-full flex items-center justify-center gap-2 bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed">
-                            <ArrowDownTrayIcon className="w-5 h-5" /> Download Image
+                        <button onClick={handleDownloadImage} disabled={isEditing} className="w-full flex items-center justify-center gap-2 bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                            <ArrowDownTrayIcon className="w-5 h-5" /> {isPdf ? 'Download PDF' : 'Download Image'}
+                        </button>
+                        <button onClick={() => setIsCameraOpen(true)} disabled={isEditing || isLoading} className="w-full flex items-center justify-center gap-2 bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                            <CameraIcon className="w-5 h-5" /> New Photo
                         </button>
+                        <div className="col-span-2">
+                            <UploadOptimization size={uploadSize} />
+                        </div>
                         </div>
                     </div>
                     )}
                 </div>
                 
                 <div className="flex flex-col min-h-[400px]">
-                    {isEditing ? <EditorPanel /> : <ResultsDisplay />}
+                    {isEditing ? <EditorPanel /> : renderResults()}
                 </div>
             </div>
         </div>
 
-        {scanMode === 'bill' && (
+        {isBillMode && (
             <div className="md:col-span-1 bg-gray-900/50 rounded-lg p-4 flex flex-col">
                 <div className="flex justify-between items-center mb-4">
                     <div className="flex items-center gap-2">
                         <ClockIcon className="w-6 h-6 text-gray-400"/>
                         <h3 className="text-lg font-semibold text-white">Scan History</h3>
                     </div>
-                    <button onClick={handleClearHistory} disabled={history.length === 0 || isClearing} className="p-1.5 text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed">
-                        <TrashIcon className="w-5 h-5"/>
-                    </button>
+                    <div className="flex items-center">
+                        <button onClick={() => setIsSummaryOpen(open => !open)} title="Spending totals" className={`p-1.5 hover:text-white ${isSummaryOpen ? 'text-blue-400' : 'text-gray-400'}`}>
+                            <ChartBarIcon className="w-5 h-5"/>
+                        </button>
+                        <button onClick={() => setIsRetentionOpen(open => !open)} title="History retention" className={`p-1.5 hover:text-white ${isRetentionOpen ? 'text-blue-400' : 'text-gray-400'}`}>
+                            <AdjustmentsHorizontalIcon className="w-5 h-5"/>
+                        </button>
+                        <button onClick={handleClearHistory} disabled={history.length === 0 || isClearing} className="p-1.5 text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed">
+                            <TrashIcon className="w-5 h-5"/>
+                        </button>
+                    </div>
                 </div>
+                {isRetentionOpen && (
+                    <div className="mb-4 p-3 bg-gray-800 rounded-lg space-y-2 text-sm">
+                        <p className="text-xs text-gray-400">Older scans are deleted automatically. Leave a field empty for no limit.</p>
+                        <label className="flex items-center justify-between gap-2 text-gray-300">
+                            Keep at most
+                            <span className="flex items-center gap-1">
+                                <input type="number" min="1" value={retentionPolicy.maxItems ?? ''}
+                                    onChange={e => setRetentionPolicy(prev => ({ ...prev, maxItems: e.target.value ? Math.max(1, parseInt(e.target.value, 10)) : null }))}
+                                    className="w-20 bg-gray-700 rounded px-2 py-1 text-right border border-gray-600 focus:border-blue-500 focus:ring-0" />
+                                scans
+                            </span>
+                        </label>
+                        <label className="flex items-center justify-between gap-2 text-gray-300">
+                            Delete after
+                            <span className="flex items-center gap-1">
+                                <input type="number" min="1" value={retentionPolicy.maxAgeDays ?? ''}
+                                    onChange={e => setRetentionPolicy(prev => ({ ...prev, maxAgeDays: e.target.value ? Math.max(1, parseInt(e.target.value, 10)) : null }))}
+                                    className="w-20 bg-gray-700 rounded px-2 py-1 text-right border border-gray-600 focus:border-blue-500 focus:ring-0" />
+                                days
+                            </span>
+                        </label>
+                        <button onClick={handleRetentionSave} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-1.5 rounded-lg">
+                            Save and apply
+                        </button>
+                    </div>
+                )}
+                {queue.length > 0 && (
+                    <ScanQueue
+                        queue={queue}
+                        concurrency={queueConcurrency}
+                        onConcurrencyChange={setQueueConcurrency}
+                        onRetry={handleRetryQueueItem}
+                        onCancel={handleCancelQueueItem}
+                        onCancelAll={handleCancelQueue}
+                        onClearFinished={() => setQueue(prev => prev.filter(item => !isFinished(item)))}
+                        onOpen={handleOpenQueueItem}
+                    />
+                )}
+                {historyError && <p className="mb-2 text-xs text-red-400">{historyError}</p>}
+                <ScanHistoryFilters filter={historyFilter} onChange={setHistoryFilter} tags={knownTags} />
+                {isSummaryOpen && spendingSummary && <SpendingSummary summary={spendingSummary} />}
                 <div className="overflow-y-auto space-y-2 flex-grow">
                     {history.length === 0 && !isClearing ? (
-                        <p className="text-sm text-gray-500 text-center pt-10">No recent scans.</p>
+                        <p className="text-sm text-gray-500 text-center pt-10">{isFilterActive(appliedFilter) ? 'No scans match your search.' : 'No recent scans.'}</p>
                     ) : (
                         history.map((item, index) => (
-                            <button 
-                                key={item.id} 
-                                onClick={() => handleHistoryClick(item)} 
-                                className={`w-full flex items-center gap-3 p-2 rounded-lg bg-gray-700 text-left transition-all duration-300 ease-in-out transform focus:outline-none
-                                    hover:bg-gray-600 hover:shadow-lg hover:scale-[1.03]
-                                    ${selectedHistoryId === item.id ? 'bg-blue-800 scale-[1.03] ring-2 ring-blue-500 shadow-xl' : 'hover:bg-gray-600'}
-                                    ${isClearing ? 'opacity-0 -translate-x-10' : 'opacity-100 translate-x-0'}`
-                                }
-                                style={{ transitionDelay: `${isClearing ? index * 50 : 0}ms` }}
-                            >
-                                <img src={item.imageDataUrl} alt="bill thumbnail" className="w-12 h-12 object-cover rounded-md flex-shrink-0 bg-gray-800 border border-gray-600" />
-                                <div className="overflow-hidden">
-                                    <p className="text-sm font-medium text-gray-200 truncate">{item.billData.items[0]?.name || 'Scan'}</p>
-                                    <p className="text-xs text-gray-400">{new Date(item.timestamp).toLocaleString()}</p>
-                                </div>
-                            </button>
+                            <div key={item.id} className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={exportSelection.includes(item.id)}
+                                    onChange={() => toggleExportSelection(item.id)}
+                                    title="Select for export"
+                                    className="w-4 h-4 flex-shrink-0 rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-500"
+                                />
+                                <button 
+                                    onClick={() => handleHistoryClick(item)} 
+                                    className={`w-full flex items-center gap-3 p-2 rounded-lg bg-gray-700 text-left transition-all duration-300 ease-in-out transform focus:outline-none
+                                        hover:bg-gray-600 hover:shadow-lg hover:scale-[1.03]
+                                        ${selectedHistoryId === item.id ? 'bg-blue-800 scale-[1.03] ring-2 ring-blue-500 shadow-xl' : 'hover:bg-gray-600'}
+                                        ${isClearing ? 'opacity-0 -translate-x-10' : 'opacity-100 translate-x-0'}`
+                                    }
+                                    style={{ transitionDelay: `${isClearing ? index * 50 : 0}ms` }}
+                                >
+                                    <ScanThumbnail blob={item.thumbnail} />
+                                    <div className="overflow-hidden">
+                                        <p className="text-sm font-medium text-gray-200 truncate">{item.billData.merchantName || item.billData.items[0]?.name || 'Scan'}</p>
+                                        <p className="text-xs text-gray-400">
+                                            {new Date(item.timestamp).toLocaleString()}
+                                            {item.lastModified && <span title={`Edited ${new Date(item.lastModified).toLocaleString()}`} className="ml-1 text-gray-500">· edited</span>}
+                                        </p>
+                                        {item.tags && item.tags.length > 0 && (
+                                            <div className="flex flex-wrap gap-1 mt-1">
+                                                {item.tags.map(tag => <span key={tag} className="bg-blue-900/60 text-blue-200 text-[10px] px-1.5 rounded-full">{tag}</span>)}
+                                            </div>
+                                        )}
+                                    </div>
+                                </button>
+                            </div>
                         ))
                     )}
+                    {hasMoreHistory && !isClearing && (
+                        <button onClick={handleLoadMoreHistory} className="w-full py-2 text-sm font-semibold text-blue-400 hover:text-blue-300">
+                            Load more
+                        </button>
+                    )}
                 </div>
+                {history.length > 0 && (
+                    <div className="mt-4 pt-3 border-t border-gray-700 space-y-2">
+                        <div className="flex justify-between items-center text-xs text-gray-400">
+                            <span>{exportSelection.length} of {history.length} selected</span>
+                            <button
+                                onClick={() => setExportSelection(exportSelection.length === history.length ? [] : history.map(item => item.id))}
+                                className="font-semibold text-blue-400 hover:text-blue-300"
+                            >
+                                {exportSelection.length === history.length ? 'Select none' : 'Select all'}
+                            </button>
+                        </div>
+                        <ExportMenu onExport={handleExportSelected} disabled={exportSelection.length === 0} label="Export selected" />
+                    </div>
+                )}
             </div>
         )}
       </div>
+      {isTemplateEditorOpen && (
+        <TemplateEditor
+          templates={templates}
+          initialTemplateId={activeTemplate.id}
+          onSave={handleSaveTemplate}
+          onDelete={handleDeleteTemplate}
+          onClose={() => setIsTemplateEditorOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,144 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Quad, cornerMovement, findDocumentCorners } from '../services/documentCleanup';
+import { CameraIcon, XMarkIcon } from './IconComponents';
+
+interface CameraCaptureProps {
+  /** Receives the captured frame as a JPEG data URL, with the page outline if one was found. */
+  onCapture: (dataUrl: string, corners: Quad | null) => void;
+  onClose: () => void;
+}
+
+const DETECTION_INTERVAL_MS = 200;
+/** Corners moving less than this (as a fraction of the frame) count as steady. */
+const STEADY_MOVEMENT = 0.015;
+/** Consecutive steady detections before an automatic capture, about 1.6 s. */
+const STEADY_FRAMES = 8;
+
+/**
+ * A live camera view that outlines the document it finds and takes the
+ * picture by itself once the outline has held still for a moment.
+ */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const previousCorners = useRef<Quad | null>(null);
+  const steadyCount = useRef(0);
+  const hasCaptured = useRef(false);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [corners, setCorners] = useState<Quad | null>(null);
+  const [steadyFrames, setSteadyFrames] = useState(0);
+  const [autoCapture, setAutoCapture] = useState(true);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('This browser does not support camera access.');
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false,
+    })
+      .then(async mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = mediaStream;
+        await video.play();
+        setIsReady(true);
+      })
+      .catch(e => {
+        console.error("Failed to start the camera", e);
+        setError(e?.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in your browser settings to scan with the camera.'
+          : 'No camera could be started.');
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const capture = useCallback((outline: Quad | null) => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth || hasCaptured.current) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0);
+    hasCaptured.current = true;
+    onCapture(canvas.toDataURL('image/jpeg', 0.92), outline);
+  }, [onCapture]);
+
+  useEffect(() => {
+    if (!isReady) return;
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+      const found = findDocumentCorners(video, video.videoWidth, video.videoHeight);
+      const previous = previousCorners.current;
+      const isSteady = !!found && !!previous && cornerMovement(found, previous) < STEADY_MOVEMENT;
+      previousCorners.current = found;
+      setCorners(found);
+      steadyCount.current = isSteady ? steadyCount.current + 1 : 0;
+      setSteadyFrames(steadyCount.current);
+      if (autoCapture && steadyCount.current >= STEADY_FRAMES) capture(found);
+    }, DETECTION_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isReady, autoCapture, capture]);
+
+  const progress = Math.min(1, steadyFrames / STEADY_FRAMES);
+  const status = !corners
+    ? 'Place the document on a darker surface.'
+    : autoCapture ? (progress > 0 ? 'Hold steady...' : 'Document found.') : 'Document found. Press Capture.';
+
+  return (
+    <div className="w-full flex flex-col h-full">
+      {error ? (
+        <p className="flex-grow flex items-center justify-center text-center text-sm text-red-400 p-4">{error}</p>
+      ) : (
+        <div className="flex-grow flex items-center justify-center min-h-0">
+          <div className="relative inline-block max-w-full">
+            <video ref={videoRef} muted playsInline className="block max-w-full max-h-80 rounded-lg shadow-md bg-black" />
+            {corners && (
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                <polygon
+                  points={corners.map(p => `${p.x * 100},${p.y * 100}`).join(' ')}
+                  className={progress > 0 ? 'fill-green-400/20 stroke-green-400' : 'fill-blue-400/15 stroke-blue-400'}
+                  strokeWidth={3}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+            )}
+            {autoCapture && corners && (
+              <div className="absolute bottom-0 left-0 h-1 bg-green-400 transition-all" style={{ width: `${progress * 100}%` }} />
+            )}
+          </div>
+        </div>
+      )}
+      <p className="mt-2 text-xs text-center text-gray-400 h-4">{!error && isReady ? status : ''}</p>
+      <label className="mt-2 flex items-center justify-center gap-2 text-sm text-gray-300">
+        <input type="checkbox" checked={autoCapture} onChange={e => setAutoCapture(e.target.checked)}
+          className="w-4 h-4 rounded border-gray-600 bg-gray-800 text-blue-600 focus:ring-blue-500" />
+        Capture automatically when steady
+      </label>
+      <div className="mt-3 grid grid-cols-2 gap-2">
+        <button onClick={onClose} className="w-full flex items-center justify-center gap-2 bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg">
+          <XMarkIcon className="w-5 h-5" /> Close
+        </button>
+        <button onClick={() => capture(corners)} disabled={!isReady} className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-600 disabled:cursor-not-allowed">
+          <CameraIcon className="w-5 h-5" /> Capture
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -1,45 +1,411 @@
-
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { continueChat } from '../services/geminiService';
-import { ChatMessage } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { streamChat, releaseChatSession } from '../services/geminiService';
+import {
+  createConversation, deleteConversation, generateTitle, listConversations, saveConversation,
+} from '../services/conversationStore';
+import {
+  addNode, getActivePath, getHistoryUpTo, getSiblingIds, removeLeafNode, setActiveNode, updateNodeMessage,
+} from '../services/conversationTree';
+import {
+  BUILT_IN_PERSONAS, deletePersona, getChatSettings, listPersonas, resolvePersona, savePersona,
+} from '../services/personaStore';
+import { PayloadSize, preprocessImage } from '../services/imagePreprocessing';
+import { ChatAttachment, ChatMessage, Conversation, Persona } from '../types';
 import Spinner from './Spinner';
-import { ChatBubbleLeftRightIcon, SparklesIcon, PaperAirplaneIcon, BoltIcon, CpuChipIcon } from './IconComponents';
+import ConversationSidebar from './ConversationSidebar';
+import MarkdownMessage from './MarkdownMessage';
+import PersonaEditor from './PersonaEditor';
+import UploadOptimization from './UploadOptimization';
+import {
+  ChatBubbleLeftRightIcon, SparklesIcon, PaperAirplaneIcon, StopIcon, PaperClipIcon, AdjustmentsHorizontalIcon,
+  DocumentTextIcon, XMarkIcon, PencilSquareIcon, ArrowPathIcon, ChevronLeftIcon, ChevronRightIcon,
+} from './IconComponents';
+
+const ACTIVE_CONVERSATION_KEY = 'chatActiveConversationId';
+const ACCEPTED_ATTACHMENT_TYPES = 'image/*,application/pdf';
+const MAX_ATTACHMENTS = 4;
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
 
-type ChatMode = 'fast' | 'pro';
+const isAcceptedAttachment = (file: File) => file.type.startsWith('image/') || file.type === 'application/pdf';
+
+/** Reads a file for sending; images are shrunk first, PDFs are kept as they are. */
+const readFileAsAttachment = async (file: File): Promise<{ attachment: ChatAttachment; size: PayloadSize }> => {
+  const upload = await preprocessImage(file);
+  return {
+    attachment: { data: upload.base64, mimeType: upload.mimeType, name: file.name },
+    size: { originalBytes: upload.originalBytes, bytes: upload.bytes },
+  };
+};
+
+const AttachmentPreview: React.FC<{ attachment: ChatAttachment; onRemove?: () => void }> = ({ attachment, onRemove }) => (
+  <div className="relative flex-shrink-0">
+    {attachment.mimeType.startsWith('image/') ? (
+      <img
+        src={`data:${attachment.mimeType};base64,${attachment.data}`}
+        alt={attachment.name || 'Attachment'}
+        className="w-16 h-16 object-cover rounded-md border border-gray-600"
+      />
+    ) : (
+      <div className="w-16 h-16 flex flex-col items-center justify-center gap-1 rounded-md border border-gray-600 bg-gray-800 p-1" title={attachment.name}>
+        <DocumentTextIcon className="w-6 h-6 text-gray-400" />
+        <span className="text-[10px] text-gray-400 truncate w-full text-center">{attachment.name || 'Document'}</span>
+      </div>
+    )}
+    {onRemove && (
+      <button onClick={onRemove} title="Remove attachment" className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-gray-900 text-gray-300 hover:text-white border border-gray-600">
+        <XMarkIcon className="w-3 h-3" />
+      </button>
+    )}
+  </div>
+);
+
+const sortByRecent = (conversations: Conversation[]) =>
+  [...conversations].sort((a, b) => b.updatedAt - a.updatedAt);
 
 const Chatbot: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [personas, setPersonas] = useState<Persona[]>(BUILT_IN_PERSONAS);
+  const [isPersonaEditorOpen, setIsPersonaEditorOpen] = useState<boolean>(false);
+  const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [input, setInput] = useState<string>('');
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [streamingNodeId, setStreamingNodeId] = useState<string | null>(null);
+  const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
+  const [editText, setEditText] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [mode, setMode] = useState<ChatMode>('fast');
   const chatHistoryRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Sizes before and after preprocessing, kept off the attachment so they are not stored with the message.
+  const attachmentSizes = useRef(new WeakMap<ChatAttachment, PayloadSize>());
+
+  const activeConversation = conversations.find(c => c.id === activeId) ?? null;
+  const activePath = activeConversation ? getActivePath(activeConversation) : [];
+  const activePersona = resolvePersona(personas, activeConversation?.personaId);
+  const pendingUploadSize = attachments.reduce<PayloadSize>((total, attachment) => {
+    const size = attachmentSizes.current.get(attachment);
+    return size
+      ? { originalBytes: total.originalBytes + size.originalBytes, bytes: total.bytes + size.bytes }
+      : total;
+  }, { originalBytes: 0, bytes: 0 });
+
+  useEffect(() => {
+    listPersonas()
+      .then(setPersonas)
+      .catch(err => console.error("Failed to load personas", err));
+  }, []);
+
+  useEffect(() => {
+    listConversations()
+      .then(saved => {
+        if (saved.length === 0) {
+          const fresh = createConversation(BUILT_IN_PERSONAS[0].id);
+          setConversations([fresh]);
+          setActiveId(fresh.id);
+          return;
+        }
+        const storedId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+        setConversations(saved);
+        setActiveId(saved.some(c => c.id === storedId) ? storedId : saved[0].id);
+      })
+      .catch(err => {
+        console.error("Failed to load conversations", err);
+        setError('Saved conversations could not be loaded. This chat will not be saved.');
+        const fresh = createConversation(BUILT_IN_PERSONAS[0].id);
+        setConversations([fresh]);
+        setActiveId(fresh.id);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (activeId) localStorage.setItem(ACTIVE_CONVERSATION_KEY, activeId);
+  }, [activeId]);
+
+  // Abort any in-flight stream when the chat unmounts (e.g. switching tools).
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   useEffect(() => {
     chatHistoryRef.current?.scrollTo({ top: chatHistoryRef.current.scrollHeight, behavior: 'smooth' });
-  }, [messages]);
-  
-  const handleSend = useCallback(async () => {
-    if (!input.trim()) return;
+  }, [activeConversation]);
 
-    const userMessage: ChatMessage = { role: 'user', text: input };
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
+  const persistConversation = (conversation: Conversation) => {
+    // Empty conversations only live in memory until the first message is sent.
+    if (conversation.rootIds.length === 0) {
+      deleteConversation(conversation.id).catch(err => console.error("Failed to delete empty conversation", err));
+      return;
+    }
+    saveConversation(conversation).catch(err => {
+      console.error("Failed to save conversation", err);
+      setError('Failed to save the conversation.');
+    });
+  };
+
+  const upsertConversation = (conversation: Conversation) => {
+    setConversations(prev => sortByRecent([conversation, ...prev.filter(c => c.id !== conversation.id)]));
+  };
+
+  const replaceConversation = (id: string, updater: (conversation: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(c => (c.id === id ? updater(c) : c)));
+  };
+
+  /**
+   * Streams a model reply as a new child of the user message `parentId`, using
+   * the active branch up to that message as history. A partial answer is kept.
+   * If nothing arrives the empty reply is removed, and on failure `undoOnFailure`
+   * can also revert the change that triggered the request.
+   */
+  const generateReply = async (
+    conversation: Conversation,
+    parentId: string,
+    undoOnFailure?: (conversation: Conversation) => Conversation
+  ) => {
+    const previousActiveId = conversation.nodes[parentId].activeChildId;
+    const history = getHistoryUpTo(conversation, parentId);
+    const settings = getChatSettings(resolvePersona(personas, conversation.personaId));
+    // Placeholder model bubble that the stream fills in as chunks arrive.
+    const { conversation: pending, nodeId } = addNode(conversation, parentId, { role: 'model', text: '' });
+    upsertConversation({ ...pending, updatedAt: Date.now() });
     setIsLoading(true);
     setError(null);
+    setStreamingNodeId(nodeId);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    let replyText = '';
+    let failed = false;
     try {
-      const modelResponse = await continueChat([...messages, userMessage], mode);
-      const modelMessage: ChatMessage = { role: 'model', text: modelResponse };
-      setMessages(prev => [...prev, modelMessage]);
+      for await (const chunk of streamChat(history, settings, { sessionId: pending.id, signal: controller.signal })) {
+        replyText += chunk;
+        replaceConversation(pending.id, c => updateNodeMessage(c, nodeId, { role: 'model', text: replyText }));
+      }
     } catch (err) {
+      failed = true;
       setError('Failed to get response. Please try again.');
       console.error(err);
-      setMessages(prev => prev.slice(0, -1)); // Remove the user message if API fails
     } finally {
+      let finished = replyText
+        ? updateNodeMessage(pending, nodeId, { role: 'model', text: replyText })
+        : removeLeafNode(pending, nodeId, previousActiveId);
+      if (!replyText && failed && undoOnFailure) {
+        finished = undoOnFailure(finished);
+      }
+      finished = { ...finished, updatedAt: Date.now() };
+      upsertConversation(finished);
+      persistConversation(finished);
+      abortControllerRef.current = null;
+      setStreamingNodeId(null);
       setIsLoading(false);
     }
-  }, [input, messages, mode]);
+  };
+
+  const addAttachments = async (files: File[]) => {
+    const accepted = files.filter(isAcceptedAttachment);
+    if (accepted.length < files.length) {
+      setError('Only images and PDF documents can be attached.');
+    }
+    // Images are shrunk before sending, so only their upload size is checked below.
+    const withinSize = accepted.filter(file => file.type.startsWith('image/') || file.size <= MAX_ATTACHMENT_BYTES);
+    if (withinSize.length < accepted.length) {
+      setError('Attachments must be 10MB or smaller.');
+    }
+    const available = MAX_ATTACHMENTS - attachments.length;
+    if (withinSize.length > available) {
+      setError(`You can attach up to ${MAX_ATTACHMENTS} files per message.`);
+    }
+    const toRead = withinSize.slice(0, Math.max(available, 0));
+    if (toRead.length === 0) return;
+
+    try {
+      const all = await Promise.all(toRead.map(readFileAsAttachment));
+      const read = all.filter(({ size }) => size.bytes <= MAX_ATTACHMENT_BYTES);
+      if (read.length < all.length) {
+        setError('Attachments must be 10MB or smaller.');
+      }
+      read.forEach(({ attachment, size }) => attachmentSizes.current.set(attachment, size));
+      setAttachments(prev => [...prev, ...read.map(({ attachment }) => attachment)].slice(0, MAX_ATTACHMENTS));
+    } catch (err) {
+      console.error("Failed to read attachment", err);
+      setError('Failed to read the attached file.');
+    }
+  };
+
+  const handleFileInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files) {
+      addAttachments(Array.from(event.target.files));
+    }
+    event.target.value = ''; // Allow re-selecting the same file
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addAttachments(files);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (isLoading || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (isLoading) return;
+    addAttachments(Array.from(e.dataTransfer.files));
+  };
+
+  const handleSend = async () => {
+    if ((!input.trim() && attachments.length === 0) || !activeConversation) return;
+
+    const userMessage: ChatMessage = {
+      role: 'user',
+      text: input,
+      ...(attachments.length > 0 && { attachments }),
+    };
+    const lastNode = activePath[activePath.length - 1] ?? null;
+    const titled: Conversation = {
+      ...activeConversation,
+      title: activePath.length === 0 ? generateTitle(input || attachments[0]?.name || '') : activeConversation.title,
+    };
+    const { conversation: withUser, nodeId: userNodeId } = addNode(titled, lastNode?.id ?? null, userMessage);
+    persistConversation(withUser);
+    setInput('');
+    setAttachments([]);
+
+    // On failure, remove the user message as well.
+    await generateReply(withUser, userNodeId, c => removeLeafNode(c, userNodeId));
+  };
+
+  const handleStartEdit = (nodeId: string) => {
+    if (!activeConversation) return;
+    setEditingNodeId(nodeId);
+    setEditText(activeConversation.nodes[nodeId].message.text);
+  };
+
+  /**
+   * Resends an edited user message as a new branch next to the original.
+   */
+  const handleSubmitEdit = async () => {
+    if (!activeConversation || !editingNodeId) return;
+    const original = activeConversation.nodes[editingNodeId];
+    if (!editText.trim() && !original.message.attachments?.length) return;
+
+    const editedMessage: ChatMessage = { ...original.message, text: editText };
+    const { conversation: withEdit, nodeId: editedNodeId } = addNode(activeConversation, original.parentId, editedMessage);
+    setEditingNodeId(null);
+    persistConversation(withEdit);
+
+    await generateReply(withEdit, editedNodeId, c => removeLeafNode(c, editedNodeId, original.id));
+  };
+
+  /**
+   * Generates an alternative answer for a model message as a new branch.
+   */
+  const handleRegenerate = async (nodeId: string) => {
+    const parentId = activeConversation?.nodes[nodeId].parentId;
+    if (!activeConversation || !parentId) return;
+    await generateReply(activeConversation, parentId);
+  };
+
+  const handleSwitchBranch = (nodeId: string, direction: -1 | 1) => {
+    if (!activeConversation) return;
+    const siblingIds = getSiblingIds(activeConversation, nodeId);
+    const targetId = siblingIds[siblingIds.indexOf(nodeId) + direction];
+    if (!targetId) return;
+    const updated = setActiveNode(activeConversation, targetId);
+    replaceConversation(updated.id, () => updated);
+    persistConversation(updated);
+  };
+
+  const handlePersonaChange = (personaId: string) => {
+    if (!activeConversation || activeConversation.personaId === personaId) return;
+    const updated = { ...activeConversation, personaId };
+    setConversations(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+    persistConversation(updated);
+  };
+
+  const handleSavePersona = (persona: Persona) => {
+    savePersona(persona)
+      .then(() => setPersonas(prev => {
+        const custom = [...prev.filter(p => !p.builtIn && p.id !== persona.id), persona];
+        return [...BUILT_IN_PERSONAS, ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+      }))
+      .catch(err => {
+        console.error("Failed to save persona", err);
+        setError('Failed to save the persona.');
+      });
+  };
+
+  const handleDeletePersona = (id: string) => {
+    // Conversations still pointing at the persona fall back to the default one.
+    deletePersona(id)
+      .then(() => setPersonas(prev => prev.filter(p => p.id !== id)))
+      .catch(err => {
+        console.error("Failed to delete persona", err);
+        setError('Failed to delete the persona.');
+      });
+  };
+
+  const handleCreateConversation = () => {
+    // Reuse the current conversation if nothing has been said in it yet.
+    if (activeConversation && activeConversation.rootIds.length === 0) return;
+    const fresh = createConversation(activePersona.id);
+    upsertConversation(fresh);
+    setActiveId(fresh.id);
+    setError(null);
+  };
+
+  const handleSelectConversation = (id: string) => {
+    setActiveId(id);
+    setEditingNodeId(null);
+    setError(null);
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation) return;
+    const updated = { ...conversation, title };
+    setConversations(prev => prev.map(c => (c.id === id ? updated : c)));
+    persistConversation(updated);
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    releaseChatSession(id);
+    deleteConversation(id).catch(err => {
+      console.error("Failed to delete conversation", err);
+      setError('Failed to delete the conversation.');
+    });
+    const remaining = conversations.filter(c => c.id !== id);
+    if (id !== activeId) {
+      setConversations(remaining);
+      return;
+    }
+    if (remaining.length > 0) {
+      setConversations(remaining);
+      setActiveId(remaining[0].id);
+    } else {
+      const fresh = createConversation(activePersona.id);
+      setConversations([fresh]);
+      setActiveId(fresh.id);
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
 
   const handleKeyPress = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -48,71 +414,198 @@ const Chatbot: React.FC = () => {
     }
   };
 
-  const ModeToggle: React.FC = () => (
-    <div className="flex bg-gray-700 rounded-full p-1">
-      <button 
-        onClick={() => setMode('fast')}
-        className={`w-1/2 flex items-center justify-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-full transition-colors ${mode === 'fast' ? 'bg-blue-600 text-white' : 'text-gray-300'}`}
-      >
-        <BoltIcon className="w-4 h-4"/>
-        Fast
-      </button>
-      <button 
-        onClick={() => setMode('pro')}
-        className={`w-1/2 flex items-center justify-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-full transition-colors ${mode === 'pro' ? 'bg-purple-600 text-white' : 'text-gray-300'}`}
+  const personaSelector = (
+    <div className="flex items-center gap-2">
+      <select
+        value={activePersona.id}
+        onChange={e => handlePersonaChange(e.target.value)}
+        disabled={isLoading}
+        title="Persona for this conversation"
+        className="bg-gray-700 text-gray-200 text-xs font-semibold rounded-full px-3 py-1.5 border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
       >
-        <CpuChipIcon className="w-4 h-4"/>
-        Pro
+        {personas.map(persona => <option key={persona.id} value={persona.id}>{persona.name}</option>)}
+      </select>
+      <button onClick={() => setIsPersonaEditorOpen(true)} title="Manage personas" className="p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors">
+        <AdjustmentsHorizontalIcon className="w-5 h-5" />
       </button>
     </div>
   );
 
   return (
-    <div className="flex flex-col h-[calc(100vh-6rem)] max-w-4xl mx-auto bg-gray-800 rounded-xl shadow-2xl">
-      <div className="flex items-center justify-between p-4 border-b border-gray-700">
-          <div className="flex items-center gap-3">
-            <ChatBubbleLeftRightIcon className="w-8 h-8 text-blue-400" />
-            <h2 className="text-2xl font-bold text-white">AI Chat</h2>
+    <div className="relative flex h-[calc(100vh-6rem)] max-w-6xl mx-auto bg-gray-800 rounded-xl shadow-2xl overflow-hidden">
+      {isSidebarOpen && <div className="md:hidden absolute inset-0 z-20 bg-black/50" onClick={() => setIsSidebarOpen(false)} />}
+      <ConversationSidebar
+        conversations={conversations.filter(c => c.rootIds.length > 0 || c.id === activeId)}
+        personas={personas}
+        activeId={activeId}
+        disabled={isLoading}
+        isOpen={isSidebarOpen}
+        onSelect={id => { setIsSidebarOpen(false); handleSelectConversation(id); }}
+        onCreate={() => { setIsSidebarOpen(false); handleCreateConversation(); }}
+        onRename={handleRenameConversation}
+        onDelete={handleDeleteConversation}
+      />
+      <div
+        className={`relative flex-1 min-w-0 flex flex-col ${isDragging ? 'ring-2 ring-inset ring-blue-500' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {isDragging && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center bg-gray-900/70 pointer-events-none">
+            <p className="text-lg font-semibold text-blue-300">Drop images or PDFs to attach</p>
           </div>
-          <ModeToggle />
-      </div>
-      
-      <div ref={chatHistoryRef} className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((msg, index) => (
-          <div key={index} className={`flex items-start gap-3 ${msg.role === 'user' ? 'justify-end' : ''}`}>
-            {msg.role === 'model' && <div className="w-8 h-8 rounded-full bg-blue-500 flex items-center justify-center flex-shrink-0"><SparklesIcon className="w-5 h-5 text-white" /></div>}
-            <div className={`max-w-xl p-3 rounded-2xl ${msg.role === 'user' ? 'bg-gray-600 text-white rounded-br-none' : 'bg-gray-700 text-gray-200 rounded-bl-none'}`}>
-              <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
+        )}
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+            <div className="flex items-center gap-3 min-w-0">
+              <button onClick={() => setIsSidebarOpen(true)} title="Conversations" className="md:hidden p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors">
+                <ChevronRightIcon className="w-5 h-5" />
+              </button>
+              <ChatBubbleLeftRightIcon className="w-8 h-8 text-blue-400" />
+              <h2 className="text-2xl font-bold text-white truncate">{activeConversation?.title ?? 'AI Chat'}</h2>
             </div>
-          </div>
-        ))}
-        {isLoading && (
-          <div className="flex items-start gap-3">
-            <div className="w-8 h-8 rounded-full bg-blue-500 flex items-center justify-center flex-shrink-0"><Spinner/></div>
-            <div className="max-w-xl p-3 rounded-2xl bg-gray-700 text-gray-400 rounded-bl-none italic">
-              Gemini is thinking...
+            {personaSelector}
+        </div>
+      
+        <div ref={chatHistoryRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+          {activePath.map(node => {
+            const msg = node.message;
+            const isStreamingPlaceholder = node.id === streamingNodeId && !msg.text;
+            const siblingIds = getSiblingIds(activeConversation!, node.id);
+            const branchIndex = siblingIds.indexOf(node.id);
+            const isEditingNode = editingNodeId === node.id;
+            return (
+              <div key={node.id} className={`flex items-start gap-3 ${msg.role === 'user' ? 'justify-end' : ''}`}>
+                {msg.role === 'model' && <div className="w-8 h-8 rounded-full bg-blue-500 flex items-center justify-center flex-shrink-0">{isStreamingPlaceholder ? <Spinner/> : <SparklesIcon className="w-5 h-5 text-white" />}</div>}
+                {isStreamingPlaceholder ? (
+                  <div className="max-w-xl p-3 rounded-2xl bg-gray-700 text-gray-400 rounded-bl-none italic">
+                    Gemini is thinking...
+                  </div>
+                ) : (
+                  <div className={`group flex flex-col max-w-xl ${msg.role === 'user' ? 'items-end' : 'items-start'} ${isEditingNode ? 'w-full' : ''}`}>
+                    {isEditingNode ? (
+                      <div className="w-full p-3 rounded-2xl bg-gray-600 rounded-br-none">
+                        <textarea
+                          autoFocus
+                          value={editText}
+                          onChange={e => setEditText(e.target.value)}
+                          rows={3}
+                          className="w-full bg-gray-700 text-gray-200 rounded-lg p-2 text-sm resize-none border border-gray-500 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                        />
+                        <div className="flex justify-end gap-2 mt-2">
+                          <button onClick={() => setEditingNodeId(null)} className="text-xs font-semibold px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-500 text-gray-200">Cancel</button>
+                          <button onClick={handleSubmitEdit} className="text-xs font-semibold px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 text-white">Save &amp; Submit</button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className={`p-3 rounded-2xl ${msg.role === 'user' ? 'bg-gray-600 text-white rounded-br-none' : 'bg-gray-700 text-gray-200 rounded-bl-none'}`}>
+                        {msg.attachments && msg.attachments.length > 0 && (
+                          <div className={`flex flex-wrap gap-2 ${msg.text ? 'mb-2' : ''}`}>
+                            {msg.attachments.map((attachment, i) => <AttachmentPreview key={i} attachment={attachment} />)}
+                          </div>
+                        )}
+                        {msg.role === 'model'
+                          ? <MarkdownMessage text={msg.text} />
+                          : msg.text && <p className="text-sm whitespace-pre-wrap">{msg.text}</p>}
+                      </div>
+                    )}
+                    {!isEditingNode && node.id !== streamingNodeId && (
+                      <div className="flex items-center gap-1 mt-1 text-xs text-gray-400">
+                        {siblingIds.length > 1 && (
+                          <div className="flex items-center">
+                            <button onClick={() => handleSwitchBranch(node.id, -1)} disabled={isLoading || branchIndex === 0} title="Previous version" className="p-0.5 hover:text-white disabled:text-gray-600">
+                              <ChevronLeftIcon className="w-3.5 h-3.5" />
+                            </button>
+                            <span className="tabular-nums">{branchIndex + 1}/{siblingIds.length}</span>
+                            <button onClick={() => handleSwitchBranch(node.id, 1)} disabled={isLoading || branchIndex === siblingIds.length - 1} title="Next version" className="p-0.5 hover:text-white disabled:text-gray-600">
+                              <ChevronRightIcon className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        )}
+                        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                          {msg.role === 'user' ? (
+                            <button onClick={() => handleStartEdit(node.id)} disabled={isLoading} title="Edit and resend" className="p-1 hover:text-white disabled:text-gray-600">
+                              <PencilSquareIcon className="w-3.5 h-3.5" />
+                            </button>
+                          ) : (
+                            <button onClick={() => handleRegenerate(node.id)} disabled={isLoading} title="Regenerate response" className="p-1 hover:text-white disabled:text-gray-600">
+                              <ArrowPathIcon className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      
+        <div className="p-4 border-t border-gray-700">
+          {error && <p className="text-red-400 text-center text-sm mb-2">{error}</p>}
+          {attachments.length > 0 && (
+            <div className="mb-3 space-y-2">
+              <div className="flex flex-wrap gap-2">
+                {attachments.map((attachment, i) => (
+                  <AttachmentPreview
+                    key={i}
+                    attachment={attachment}
+                    onRemove={() => setAttachments(prev => prev.filter((_, j) => j !== i))}
+                  />
+                ))}
+              </div>
+              <UploadOptimization size={pendingUploadSize} />
             </div>
+          )}
+          <div className="relative">
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="sr-only"
+              accept={ACCEPTED_ATTACHMENT_TYPES}
+              multiple
+              onChange={handleFileInputChange}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading || attachments.length >= MAX_ATTACHMENTS}
+              title="Attach images or documents"
+              className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+            >
+              <PaperClipIcon className="w-5 h-5" />
+            </button>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyPress={handleKeyPress}
+              onPaste={handlePaste}
+              placeholder={`Message ${activePersona.name}...`}
+              className="w-full bg-gray-700 text-gray-200 rounded-lg p-3 pl-12 pr-12 resize-none border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              rows={1}
+              disabled={isLoading}
+            />
+            {isLoading ? (
+              <button onClick={handleStop} title="Stop generating" className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-red-600 text-white hover:bg-red-700 transition-colors">
+                <StopIcon className="w-5 h-5" />
+              </button>
+            ) : (
+              <button onClick={handleSend} disabled={!input.trim() && attachments.length === 0} className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
+                <PaperAirplaneIcon className="w-5 h-5" />
+              </button>
+            )}
           </div>
-        )}
-      </div>
-      
-      <div className="p-4 border-t border-gray-700">
-        {error && <p className="text-red-400 text-center text-sm mb-2">{error}</p>}
-        <div className="relative">
-          <textarea
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder={mode === 'fast' ? "Ask a quick question..." : "Ask a complex question..."}
-            className="w-full bg-gray-700 text-gray-200 rounded-lg p-3 pr-12 resize-none border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
-            rows={1}
-            disabled={isLoading}
-          />
-          <button onClick={handleSend} disabled={isLoading || !input.trim()} className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
-            <PaperAirplaneIcon className="w-5 h-5" />
-          </button>
         </div>
       </div>
+      {isPersonaEditorOpen && (
+        <PersonaEditor
+          personas={personas}
+          initialPersonaId={activePersona.id}
+          onSave={handleSavePersona}
+          onDelete={handleDeletePersona}
+          onClose={() => setIsPersonaEditorOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Conversation, Persona } from '../types';
+import { DEFAULT_PERSONA_ID, PRO_PERSONA_ID, resolvePersona } from '../services/personaStore';
+import { PlusIcon, PencilSquareIcon, TrashIcon, CheckIcon, XMarkIcon, CpuChipIcon, BoltIcon, SparklesIcon } from './IconComponents';
+
+const PERSONA_ICONS: Record<string, { Icon: typeof SparklesIcon; color: string }> = {
+  [DEFAULT_PERSONA_ID]: { Icon: BoltIcon, color: 'text-blue-400' },
+  [PRO_PERSONA_ID]: { Icon: CpuChipIcon, color: 'text-purple-400' },
+};
+const CUSTOM_PERSONA_ICON = { Icon: SparklesIcon, color: 'text-green-400' };
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  personas: Persona[];
+  activeId: string | null;
+  disabled?: boolean;
+  /** On small screens the sidebar is a drawer, shown only while open. */
+  isOpen?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations, personas, activeId, disabled = false, isOpen = false, onSelect, onCreate, onRename, onDelete,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState<string>('');
+
+  const startRename = (conversation: Conversation) => {
+    setRenamingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (renamingId && draftTitle.trim()) {
+      onRename(renamingId, draftTitle.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commitRename();
+    if (e.key === 'Escape') setRenamingId(null);
+  };
+
+  return (
+    <div className={`${isOpen ? 'absolute inset-y-0 left-0 z-30 flex bg-gray-800 shadow-2xl' : 'hidden'} md:static md:z-auto md:shadow-none md:flex w-56 flex-shrink-0 border-r border-gray-700 flex-col`}>
+      <div className="p-3 border-b border-gray-700">
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold py-2 px-3 rounded-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          <PlusIcon className="w-4 h-4" /> New Chat
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && (
+          <p className="text-xs text-gray-500 text-center pt-6">No conversations yet.</p>
+        )}
+        {conversations.map(conversation => {
+          const isActive = conversation.id === activeId;
+          const persona = resolvePersona(personas, conversation.personaId);
+          const { Icon: PersonaIcon, color } = PERSONA_ICONS[persona.id] ?? CUSTOM_PERSONA_ICON;
+
+          if (renamingId === conversation.id) {
+            return (
+              <div key={conversation.id} className="flex items-center gap-1 p-1 rounded-lg bg-gray-700">
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={e => setDraftTitle(e.target.value)}
+                  onKeyDown={handleRenameKeyDown}
+                  className="flex-1 min-w-0 bg-gray-800 rounded px-2 py-1 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0"
+                />
+                <button onClick={commitRename} className="p-1 text-gray-400 hover:text-white"><CheckIcon className="w-4 h-4" /></button>
+                <button onClick={() => setRenamingId(null)} className="p-1 text-gray-400 hover:text-white"><XMarkIcon className="w-4 h-4" /></button>
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-2 px-2 py-2 rounded-lg text-sm transition-colors ${
+                isActive ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/60'
+              }`}
+            >
+              <button
+                onClick={() => onSelect(conversation.id)}
+                disabled={disabled}
+                className="flex-1 min-w-0 flex items-center gap-2 text-left disabled:cursor-not-allowed"
+                title={`${conversation.title} (${persona.name})`}
+              >
+                <PersonaIcon className={`w-4 h-4 flex-shrink-0 ${color}`} />
+                <span className="truncate">{conversation.title}</span>
+              </button>
+              <div className={`flex items-center ${isActive ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                <button onClick={() => startRename(conversation)} disabled={disabled} title="Rename" className="p-1 text-gray-400 hover:text-white disabled:text-gray-600">
+                  <PencilSquareIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDelete(conversation.id)} disabled={disabled} title="Delete" className="p-1 text-gray-400 hover:text-red-400 disabled:text-gray-600">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationSidebar;
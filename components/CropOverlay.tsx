@@ -0,0 +1,80 @@
+import React, { useRef } from 'react';
+import { Point, Quad } from '../services/documentCleanup';
+
+interface CropOverlayProps {
+  src: string;
+  corners: Quad;
+  onChange: (corners: Quad) => void;
+  /** Clockwise degrees the preview is rotated by, so drags still follow the pointer. */
+  rotation: number;
+  imageStyle?: React.CSSProperties;
+}
+
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom right', 'Bottom left'];
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * The image with the page outline drawn over it and a draggable handle on
+ * each corner. Corners are fractions of the unrotated image.
+ */
+const CropOverlay: React.FC<CropOverlayProps> = ({ src, corners, onChange, rotation, imageStyle }) => {
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  // Undo the preview rotation around the image centre before converting to fractions.
+  const toImagePoint = (clientX: number, clientY: number): Point | null => {
+    const img = imageRef.current;
+    if (!img) return null;
+    const rect = img.getBoundingClientRect();
+    const dx = clientX - (rect.left + rect.width / 2);
+    const dy = clientY - (rect.top + rect.height / 2);
+    const rad = rotation * Math.PI / 180;
+    const ux = dx * Math.cos(rad) + dy * Math.sin(rad);
+    const uy = -dx * Math.sin(rad) + dy * Math.cos(rad);
+    return { x: clamp(ux / img.offsetWidth + 0.5), y: clamp(uy / img.offsetHeight + 0.5) };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (index: number) => (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    const point = toImagePoint(event.clientX, event.clientY);
+    if (!point) return;
+    onChange(corners.map((corner, i) => i === index ? point : corner) as Quad);
+  };
+
+  return (
+    <div className="flex-grow flex items-center justify-center min-h-0">
+      <div className="relative inline-block max-w-full touch-none select-none"
+        style={{ transform: `rotate(${rotation}deg)`, transition: 'transform 0.2s' }}>
+        <img ref={imageRef} src={src} alt="Document being cropped" draggable={false}
+          className="block max-w-full h-auto max-h-80 rounded-lg shadow-md" style={imageStyle} />
+        <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+          <polygon
+            points={corners.map(p => `${p.x * 100},${p.y * 100}`).join(' ')}
+            className="fill-blue-400/15 stroke-blue-400"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+        {corners.map((corner, i) => (
+          <div
+            key={i}
+            role="slider"
+            aria-label={`${CORNER_LABELS[i]} corner`}
+            aria-valuetext={`${Math.round(corner.x * 100)}%, ${Math.round(corner.y * 100)}%`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove(i)}
+            className="absolute w-4 h-4 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white border-2 border-blue-500 shadow cursor-grab active:cursor-grabbing"
+            style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CropOverlay;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ExportFormat } from '../services/billExport';
+import { ArrowDownTrayIcon } from './IconComponents';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+  label?: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'XLSX' },
+  { format: 'json', label: 'JSON' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled = false, label = 'Export' }) => (
+  <div className="flex items-center gap-1">
+    <span className="flex items-center gap-1 text-xs font-medium text-gray-400 mr-1">
+      <ArrowDownTrayIcon className="w-4 h-4" /> {label}
+    </span>
+    {FORMATS.map(({ format, label: formatLabel }) => (
+      <button
+        key={format}
+        onClick={() => onExport(format)}
+        disabled={disabled}
+        className="text-xs font-semibold bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded-md transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+      >
+        {formatLabel}
+      </button>
+    ))}
+  </div>
+);
+
+export default ExportMenu;
@@ -1,9 +1,13 @@
-import React, { useState, useCallback } from 'react';
-import { editImage } from '../services/geminiService';
+import React, { useState, useCallback, useRef } from 'react';
+import { editImage, inpaintImage } from '../services/geminiService';
+import { PayloadSize, preprocessImage } from '../services/imagePreprocessing';
+import { compositeMasked, isMaskEmpty, renderMaskImage } from '../services/maskCompositing';
+import UploadOptimization from './UploadOptimization';
+import MaskCanvas, { MaskTool } from './MaskCanvas';
 import Spinner from './Spinner';
 import { 
     PaintBrushIcon, DocumentArrowUpIcon, SparklesIcon, PencilSquareIcon, CheckIcon, XMarkIcon,
-    ContrastIcon, SaturationIcon, ArrowDownTrayIcon
+    ContrastIcon, SaturationIcon, ArrowDownTrayIcon, TrashIcon
 } from './IconComponents';
 
 const ImageEditor: React.FC = () => {
@@ -14,6 +18,13 @@ const ImageEditor: React.FC = () => {
   const [prompt, setPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [uploadSize, setUploadSize] = useState<PayloadSize | null>(null);
+
+  // Inpainting mask; when something is painted only that area is edited.
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const [hasMask, setHasMask] = useState<boolean>(false);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(24);
 
   // Client-side editing state
   const [isEditing, setIsEditing] = useState<boolean>(false);
@@ -29,6 +40,8 @@ const ImageEditor: React.FC = () => {
       setEditedImage(null);
       setError(null);
       setPrompt('');
+      setUploadSize(null);
+      handleClearMask();
       
       // Reset client-side edits
       setIsEditing(false);
@@ -57,17 +70,39 @@ const ImageEditor: React.FC = () => {
     setEditedImage(null);
 
     try {
-      const base64Data = image!.split(',')[1];
-      const mimeType = image!.split(',')[0].split(';')[0].split(':')[1];
-      const result = await editImage(base64Data, mimeType, prompt);
-      setEditedImage(`data:image/png;base64,${result}`);
+      const upload = await preprocessImage(image);
+      setUploadSize(upload);
+      const mask = maskRef.current;
+      if (mask && hasMask) {
+        const maskImage = await renderMaskImage(mask, upload.dataUrl);
+        const result = await inpaintImage(upload.base64, upload.mimeType, maskImage, prompt);
+        setEditedImage(await compositeMasked(image, `data:image/png;base64,${result}`, mask));
+      } else {
+        const result = await editImage(upload.base64, upload.mimeType, prompt);
+        setEditedImage(`data:image/png;base64,${result}`);
+      }
     } catch (err) {
       setError('Failed to edit image. Please try again.');
       console.error(err);
     } finally {
       setIsLoading(false);
     }
-  }, [image, prompt]);
+  }, [image, prompt, hasMask]);
+
+  // A brush stroke always leaves paint, so only erasing needs the mask checked.
+  const handleMaskChange = (stroke: MaskTool | null) => {
+    if (stroke === 'brush') {
+      setHasMask(true);
+    } else if (maskRef.current) {
+      setHasMask(!isMaskEmpty(maskRef.current));
+    }
+  };
+
+  const handleClearMask = () => {
+    const mask = maskRef.current;
+    mask?.getContext('2d')?.clearRect(0, 0, mask.width, mask.height);
+    setHasMask(false);
+  };
 
   const handleEditToggle = () => {
     if (!isEditing) {
@@ -154,7 +189,7 @@ const ImageEditor: React.FC = () => {
         <PaintBrushIcon className="w-8 h-8 text-blue-400" />
         <h2 className="text-2xl font-bold text-white">AI Image Editor</h2>
       </div>
-      <p className="text-gray-400 mb-6">Adjust your photo with client-side tools, then tell Gemini how to change it. Powered by Nano Banana.</p>
+      <p className="text-gray-400 mb-6">Adjust your photo with client-side tools, then tell Gemini how to change it. Paint over an area to change only that part. Powered by Nano Banana.</p>
       
       <div className="flex flex-col md:flex-row gap-6">
         {/* Left Side: Upload & Prompt */}
@@ -170,11 +205,14 @@ const ImageEditor: React.FC = () => {
                 <p className="text-xs leading-5 text-gray-400 mt-1">PNG, JPG, etc.</p>
               </div>
             ) : (
-               <img 
-                src={image} 
-                alt="Original" 
-                className="w-full h-auto max-h-60 object-contain rounded-lg" 
-                style={{
+              <MaskCanvas
+                src={image}
+                canvasRef={maskRef}
+                tool={maskTool}
+                brushSize={brushSize}
+                onChange={handleMaskChange}
+                disabled={isEditing || isLoading}
+                imageStyle={{
                     filter: isEditing ? `contrast(${tempContrast}) saturate(${tempSaturation})` : `contrast(${contrast}) saturate(${saturation})`,
                     transition: 'filter 0.2s ease-in-out',
                 }}
@@ -188,6 +226,27 @@ const ImageEditor: React.FC = () => {
                  <button onClick={handleEditToggle} className="w-full flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-2.5 px-4 rounded-lg transition-colors duration-200">
                     <PencilSquareIcon className="w-5 h-5" /> Adjust Image
                 </button>
+                <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                        <div className="flex p-0.5 rounded-lg bg-gray-900/50">
+                            {(['brush', 'eraser'] as MaskTool[]).map(tool => (
+                                <button key={tool} onClick={() => setMaskTool(tool)}
+                                    className={`px-3 py-1 text-xs font-semibold rounded-md capitalize transition-colors ${maskTool === tool ? 'bg-blue-600 text-white shadow' : 'text-gray-300 hover:bg-gray-700'}`}>
+                                    {tool}
+                                </button>
+                            ))}
+                        </div>
+                        <input type="range" min="4" max="80" step="2" value={brushSize} aria-label="Brush size"
+                            onChange={e => setBrushSize(parseInt(e.target.value, 10))}
+                            className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+                        <button onClick={handleClearMask} disabled={!hasMask} title="Clear mask" className="p-1 text-gray-400 hover:text-white disabled:text-gray-600">
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-400">
+                        {hasMask ? 'Only the painted area will change.' : 'Paint over the image to limit the edit to that area.'}
+                    </p>
+                </div>
                 <div>
                     <label htmlFor="edit-prompt" className="block text-sm font-medium text-gray-300 mb-1">AI Edit Instruction</label>
                     <textarea
@@ -203,6 +262,7 @@ const ImageEditor: React.FC = () => {
                 <button onClick={handleEdit} disabled={isLoading || !prompt || !image} className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2.5 px-4 rounded-lg transition-colors duration-200 disabled:bg-blue-800 disabled:cursor-not-allowed">
                     {isLoading ? <><Spinner /> Applying AI...</> : <><SparklesIcon className="w-5 h-5" /> Apply AI Edit</>}
                 </button>
+                <UploadOptimization size={uploadSize} />
                 {error && <p className="text-red-400 text-center text-sm mt-2">{error}</p>}
             </div>
           )}
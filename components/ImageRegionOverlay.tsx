@@ -0,0 +1,53 @@
+import React from 'react';
+import { BoundingBox } from '../types';
+
+export interface ImageRegion {
+  id: string;
+  box: BoundingBox;
+  label?: string;
+}
+
+interface ImageRegionOverlayProps {
+  src: string;
+  alt: string;
+  regions: ImageRegion[];
+  selectedId: string | null;
+  /** Makes regions clickable. Without it they are only drawn. */
+  onSelect?: (id: string) => void;
+  /** Applied to the image and its regions together, so boxes follow a rotation. */
+  style?: React.CSSProperties;
+  /** Applied to the image alone, e.g. a brightness filter. */
+  imageStyle?: React.CSSProperties;
+}
+
+/**
+ * An image with rectangles drawn over regions of it. The wrapper shrinks to
+ * the rendered image, so boxes given as fractions line up at any size.
+ */
+const ImageRegionOverlay: React.FC<ImageRegionOverlayProps> = ({ src, alt, regions, selectedId, onSelect, style, imageStyle }) => (
+  <div className="flex-grow flex items-center justify-center min-h-0">
+    <div className="relative inline-block max-w-full" style={style}>
+      <img src={src} alt={alt} className="block max-w-full h-auto max-h-80 rounded-lg shadow-md" style={imageStyle} />
+      {regions.map(region => {
+        const isSelected = region.id === selectedId;
+        const position: React.CSSProperties = {
+          left: `${region.box.x * 100}%`,
+          top: `${region.box.y * 100}%`,
+          width: `${region.box.width * 100}%`,
+          height: `${region.box.height * 100}%`,
+        };
+        const className = `absolute rounded-sm border-2 transition-colors ${isSelected
+          ? 'border-yellow-400 bg-yellow-300/30'
+          : 'border-blue-400/60 bg-blue-400/10'}`;
+        return onSelect ? (
+          <button key={region.id} onClick={() => onSelect(region.id)} title={region.label} aria-label={region.label}
+            aria-pressed={isSelected} className={`${className} hover:bg-blue-400/25`} style={position} />
+        ) : (
+          <div key={region.id} title={region.label} className={`${className} pointer-events-none`} style={position} />
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default ImageRegionOverlay;
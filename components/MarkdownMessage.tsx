@@ -0,0 +1,89 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { CheckIcon, ClipboardDocumentIcon } from './IconComponents';
+
+// The default schema keeps `language-*` classes on code; also keep the markers
+// remark-math adds so rehype-katex can tell inline and display math apart.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    const code = preRef.current?.textContent;
+    if (!code) return;
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="relative group my-2">
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 right-2 flex items-center gap-1 text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-1 rounded-md opacity-0 group-hover:opacity-100 transition-opacity"
+      >
+        {copied ? <CheckIcon className="w-3.5 h-3.5 text-green-400" /> : <ClipboardDocumentIcon className="w-3.5 h-3.5" />}
+        {copied ? 'Copied!' : 'Copy'}
+      </button>
+      <pre ref={preRef} {...props} className="bg-gray-900 rounded-lg p-3 overflow-x-auto text-xs">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const markdownComponents: Components = {
+  pre: ({ node, ...props }) => <CodeBlock {...props} />,
+  a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline hover:text-blue-300" />,
+  h1: ({ node, ...props }) => <h1 {...props} className="text-xl font-bold mt-3 mb-2" />,
+  h2: ({ node, ...props }) => <h2 {...props} className="text-lg font-bold mt-3 mb-2" />,
+  h3: ({ node, ...props }) => <h3 {...props} className="text-base font-semibold mt-2 mb-1" />,
+  p: ({ node, ...props }) => <p {...props} className="my-1.5" />,
+  ul: ({ node, ...props }) => <ul {...props} className="list-disc pl-5 my-1.5 space-y-0.5" />,
+  ol: ({ node, ...props }) => <ol {...props} className="list-decimal pl-5 my-1.5 space-y-0.5" />,
+  blockquote: ({ node, ...props }) => <blockquote {...props} className="border-l-4 border-gray-500 pl-3 my-2 text-gray-400 italic" />,
+  hr: ({ node, ...props }) => <hr {...props} className="my-3 border-gray-600" />,
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto my-2">
+      <table {...props} className="min-w-full text-xs border-collapse" />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th {...props} className="border border-gray-600 bg-gray-800 px-2 py-1 text-left font-semibold" />,
+  td: ({ node, ...props }) => <td {...props} className="border border-gray-600 px-2 py-1" />,
+};
+
+interface MarkdownMessageProps {
+  text: string;
+}
+
+/**
+ * Renders a model reply as sanitized Markdown (GFM tables and lists,
+ * highlighted code blocks with a copy button, and KaTeX math).
+ */
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ text }) => (
+  <div className="text-sm break-words [&_:not(pre)>code]:bg-gray-800 [&_:not(pre)>code]:px-1 [&_:not(pre)>code]:py-0.5 [&_:not(pre)>code]:rounded [&_:not(pre)>code]:text-xs">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      // Sanitize first, so KaTeX and highlight.js output (which we trust) is not stripped.
+      rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeKatex, rehypeHighlight]}
+      components={markdownComponents}
+    >
+      {text}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownMessage;
@@ -0,0 +1,99 @@
+import React, { useRef } from 'react';
+
+export type MaskTool = 'brush' | 'eraser';
+
+interface MaskCanvasProps {
+  src: string;
+  /** The mask, kept at the image's natural size so it can be composited directly. */
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  tool: MaskTool;
+  /** Brush diameter in screen pixels. */
+  brushSize: number;
+  /** Called with the tool after each stroke, and with null when the mask is reset for a new image. */
+  onChange: (stroke: MaskTool | null) => void;
+  disabled?: boolean;
+  imageStyle?: React.CSSProperties;
+}
+
+/**
+ * The image with a paintable mask over it. Painted areas show in red and
+ * mark where an AI edit may change the image.
+ */
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ src, canvasRef, tool, brushSize, onChange, disabled, imageStyle }) => {
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+  // A new image gets a fresh mask; the same size (e.g. after an adjustment) keeps it.
+  const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    const { naturalWidth, naturalHeight } = event.currentTarget;
+    if (!canvas || (canvas.width === naturalWidth && canvas.height === naturalHeight)) return;
+    canvas.width = naturalWidth;
+    canvas.height = naturalHeight;
+    onChange(null);
+  };
+
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * canvas.width / rect.width,
+      y: (event.clientY - rect.top) * canvas.height / rect.height,
+    };
+  };
+
+  const drawTo = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const point = toCanvasPoint(event);
+    const from = lastPoint.current ?? point;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#EF4444';
+    ctx.lineWidth = brushSize * canvas.width / canvas.getBoundingClientRect().width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPoint.current = null;
+    drawTo(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    drawTo(event);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    lastPoint.current = null;
+    onChange(tool);
+  };
+
+  return (
+    <div className="relative inline-block max-w-full touch-none select-none">
+      <img src={src} alt="Original" draggable={false} onLoad={handleImageLoad}
+        className="block max-w-full h-auto max-h-60 rounded-lg" style={imageStyle} />
+      <canvas
+        ref={canvasRef}
+        aria-label="Edit mask"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`absolute inset-0 w-full h-full opacity-50 rounded-lg ${disabled ? 'pointer-events-none' : 'cursor-crosshair'}`}
+      />
+    </div>
+  );
+};
+
+export default MaskCanvas;
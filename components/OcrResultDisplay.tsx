@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { CheckIcon, ClipboardDocumentIcon } from './IconComponents';
+
+interface OcrResultDisplayProps {
+  /** The extracted text, one entry per page. */
+  pages: string[] | null;
+}
+
+/** Joins pages with a marker line so page breaks survive a copy. */
+const joinPages = (pages: string[]): string =>
+  pages.map((text, i) => `--- Page ${i + 1} ---\n${text}`).join('\n\n');
+
+/**
+ * Shows extracted text. Multi-page documents get a tab per page plus an
+ * "All" tab with every page in order.
+ */
+const OcrResultDisplay: React.FC<OcrResultDisplayProps> = ({ pages }) => {
+  const [copied, setCopied] = useState(false);
+  // null shows all pages.
+  const [pageIndex, setPageIndex] = useState<number | null>(null);
+
+  useEffect(() => setPageIndex(null), [pages]);
+
+  if (!pages) return <p className="text-gray-500 text-center p-4">Extracted text will appear here...</p>;
+
+  const isMultiPage = pages.length > 1;
+  const text = pageIndex === null ? (isMultiPage ? joinPages(pages) : pages[0] ?? '') : pages[pageIndex];
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-2 py-1 text-xs font-semibold rounded-md transition-colors ${active ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`;
+
+  return (
+    <div className="p-4 bg-gray-700 rounded-lg h-full flex flex-col">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-200">Extracted Text</h3>
+        <button onClick={handleCopy} className="flex items-center gap-2 text-sm bg-gray-600 hover:bg-gray-500 px-3 py-1.5 rounded-md transition-colors disabled:opacity-50">
+          {copied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <ClipboardDocumentIcon className="w-4 h-4" />}
+          {copied ? 'Copied!' : 'Copy'}
+        </button>
+      </div>
+      {isMultiPage && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          <button onClick={() => setPageIndex(null)} className={tabClass(pageIndex === null)}>All</button>
+          {pages.map((_, i) => (
+            <button key={i} onClick={() => setPageIndex(i)} className={tabClass(pageIndex === i)}>Page {i + 1}</button>
+          ))}
+        </div>
+      )}
+      <textarea
+        readOnly
+        value={text}
+        className="w-full flex-grow bg-gray-800 rounded p-2 text-sm text-gray-300 border border-gray-600 resize-none"
+        placeholder="No text extracted."
+      />
+    </div>
+  );
+};
+
+export default OcrResultDisplay;
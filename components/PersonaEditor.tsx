@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { CHAT_MODELS, ChatModel, Persona } from '../types';
+import { createPersona } from '../services/personaStore';
+import PresetEditorModal from './PresetEditorModal';
+
+interface PersonaEditorProps {
+  personas: Persona[];
+  initialPersonaId: string;
+  onSave: (persona: Persona) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+type NumericField = 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget';
+
+const NUMERIC_FIELDS: { field: NumericField; label: string; step: string; hint: string }[] = [
+  { field: 'temperature', label: 'Temperature', step: '0.1', hint: '0 - 2' },
+  { field: 'topP', label: 'Top P', step: '0.05', hint: '0 - 1' },
+  { field: 'maxOutputTokens', label: 'Max output tokens', step: '1', hint: 'Whole number' },
+  { field: 'thinkingBudget', label: 'Thinking budget', step: '1', hint: '-1 = dynamic' },
+];
+
+/**
+ * Returns an error message for invalid persona settings, or null if they are valid.
+ */
+const validatePersona = (persona: Persona): string | null => {
+  if (!persona.name.trim()) return 'Please give the persona a name.';
+  if (persona.temperature !== undefined && (persona.temperature < 0 || persona.temperature > 2)) {
+    return 'Temperature must be between 0 and 2.';
+  }
+  if (persona.topP !== undefined && (persona.topP < 0 || persona.topP > 1)) {
+    return 'Top P must be between 0 and 1.';
+  }
+  if (persona.maxOutputTokens !== undefined && (!Number.isInteger(persona.maxOutputTokens) || persona.maxOutputTokens < 1)) {
+    return 'Max output tokens must be a positive whole number.';
+  }
+  if (persona.thinkingBudget !== undefined && (!Number.isInteger(persona.thinkingBudget) || persona.thinkingBudget < -1)) {
+    return 'Thinking budget must be a whole number of -1 or more.';
+  }
+  return null;
+};
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ personas, initialPersonaId, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<Persona>(() => personas.find(p => p.id === initialPersonaId) ?? createPersona());
+  const [error, setError] = useState<string | null>(null);
+
+  const isReadOnly = !!draft.builtIn;
+
+  const selectPersona = (persona: Persona) => {
+    setDraft(persona);
+    setError(null);
+  };
+
+  const handleNumberChange = (field: NumericField, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+  };
+
+  const handleSave = () => {
+    const validationError = validatePersona(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSave({ ...draft, name: draft.name.trim() });
+    setError(null);
+  };
+
+  return (
+    <PresetEditorModal
+      items={personas}
+      draft={draft}
+      noun="Persona"
+      create={createPersona}
+      onSelect={selectPersona}
+      onSave={handleSave}
+      onDelete={onDelete}
+      onClose={onClose}
+      error={error}
+    >
+      <div>
+        <label htmlFor="persona-name" className="block text-xs font-medium text-gray-400 mb-1">Name</label>
+        <input id="persona-name" type="text" value={draft.name} disabled={isReadOnly}
+          onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+          className="w-full bg-gray-700 rounded px-2 py-1.5 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0 disabled:opacity-60" />
+      </div>
+      <div>
+        <label htmlFor="persona-model" className="block text-xs font-medium text-gray-400 mb-1">Model</label>
+        <select id="persona-model" value={draft.model} disabled={isReadOnly}
+          onChange={e => setDraft(prev => ({ ...prev, model: e.target.value as ChatModel }))}
+          className="w-full bg-gray-700 rounded px-2 py-1.5 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0 disabled:opacity-60">
+          {CHAT_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="persona-instruction" className="block text-xs font-medium text-gray-400 mb-1">System instruction</label>
+        <textarea id="persona-instruction" rows={5} value={draft.systemInstruction ?? ''} disabled={isReadOnly}
+          onChange={e => setDraft(prev => ({ ...prev, systemInstruction: e.target.value }))}
+          placeholder="e.g., You are a concise technical reviewer. Answer in bullet points."
+          className="w-full bg-gray-700 rounded p-2 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0 resize-none disabled:opacity-60" />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {NUMERIC_FIELDS.map(({ field, label, step, hint }) => (
+          <div key={field}>
+            <label htmlFor={`persona-${field}`} className="block text-xs font-medium text-gray-400 mb-1">{label} <span className="text-gray-500">({hint})</span></label>
+            <input id={`persona-${field}`} type="number" step={step} value={draft[field] ?? ''} disabled={isReadOnly}
+              onChange={e => handleNumberChange(field, e.target.value)}
+              placeholder="Model default"
+              className="w-full bg-gray-700 rounded px-2 py-1.5 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0 disabled:opacity-60" />
+          </div>
+        ))}
+      </div>
+    </PresetEditorModal>
+  );
+};
+
+export default PersonaEditor;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { PlusIcon, TrashIcon, XMarkIcon, CheckIcon, ClipboardDocumentIcon } from './IconComponents';
+
+/** A saved, named configuration that may ship built in, e.g. a persona or a template. */
+export interface Preset {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+}
+
+interface PresetEditorModalProps<T extends Preset> {
+  /** Built-in and saved presets, listed in the sidebar. */
+  items: T[];
+  /** The preset being edited; it may not be saved yet. */
+  draft: T;
+  /** What a preset is called, e.g. "Persona". */
+  noun: string;
+  /** Makes a new, unsaved preset; also supplies fresh ids for duplicates. */
+  create: () => T;
+  onSelect: (item: T) => void;
+  onSave: () => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  error: string | null;
+  /** The form for the draft's own settings. */
+  children: React.ReactNode;
+}
+
+/**
+ * The modal shared by the preset editors: a sidebar to pick or add a preset,
+ * and duplicate, delete and save actions around the editor's own form.
+ * Built-in presets are read-only and can only be duplicated.
+ */
+const PresetEditorModal = <T extends Preset>({
+  items, draft, noun, create, onSelect, onSave, onDelete, onClose, error, children,
+}: PresetEditorModalProps<T>) => {
+  const isReadOnly = !!draft.builtIn;
+  const isSaved = items.some(item => item.id === draft.id);
+
+  const handleDuplicate = () => {
+    const { builtIn, ...settings } = draft;
+    onSelect({ ...settings, id: create().id, name: `${draft.name} (copy)` } as T);
+  };
+
+  const handleDelete = () => {
+    onDelete(draft.id);
+    onSelect(items[0]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[90vh] flex bg-gray-800 rounded-xl shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="w-48 flex-shrink-0 border-r border-gray-700 flex flex-col">
+          <div className="p-3 border-b border-gray-700">
+            <button onClick={() => onSelect(create())} className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold py-2 px-3 rounded-lg transition-colors">
+              <PlusIcon className="w-4 h-4" /> New {noun}
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-2 space-y-1">
+            {items.map(item => (
+              <button
+                key={item.id}
+                onClick={() => onSelect(item)}
+                className={`w-full text-left px-2 py-2 rounded-lg text-sm truncate transition-colors ${item.id === draft.id ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/60'}`}
+              >
+                {item.name}
+                {item.builtIn && <span className="ml-1 text-xs text-gray-500">(built-in)</span>}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="flex items-center justify-between p-4 border-b border-gray-700">
+            <h3 className="text-lg font-semibold text-white">{isReadOnly ? `Built-in ${noun}` : isSaved ? `Edit ${noun}` : `New ${noun}`}</h3>
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-white"><XMarkIcon className="w-5 h-5" /></button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {isReadOnly && (
+              <p className="text-xs text-gray-400 bg-gray-900/50 rounded-md p-2">Built-in {noun.toLowerCase()}s cannot be changed. Duplicate one to customize it.</p>
+            )}
+            {children}
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+          </div>
+
+          <div className="flex gap-2 p-4 border-t border-gray-700">
+            <button onClick={handleDuplicate} className="flex items-center justify-center gap-2 bg-gray-600 hover:bg-gray-500 text-white text-sm font-bold py-2 px-4 rounded-lg">
+              <ClipboardDocumentIcon className="w-4 h-4" /> Duplicate
+            </button>
+            {!isReadOnly && isSaved && (
+              <button onClick={handleDelete} className="flex items-center justify-center gap-2 bg-red-700 hover:bg-red-800 text-white text-sm font-bold py-2 px-4 rounded-lg">
+                <TrashIcon className="w-4 h-4" /> Delete
+              </button>
+            )}
+            <div className="flex-1" />
+            {!isReadOnly && (
+              <button onClick={onSave} className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-2 px-4 rounded-lg">
+                <CheckIcon className="w-4 h-4" /> Save
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresetEditorModal;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { EMPTY_SCAN_FILTER, ScanFilter, isFilterActive } from '../services/scanFilters';
+import { AdjustmentsHorizontalIcon, XMarkIcon } from './IconComponents';
+
+interface ScanHistoryFiltersProps {
+  filter: ScanFilter;
+  onChange: (filter: ScanFilter) => void;
+  /** Every tag in use, offered in the tag filter. */
+  tags: string[];
+}
+
+const fieldClassName = 'w-full bg-gray-700 rounded px-2 py-1 text-xs border border-gray-600 focus:border-blue-500 focus:ring-0';
+
+const ScanHistoryFilters: React.FC<ScanHistoryFiltersProps> = ({ filter, onChange, tags }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const hasFieldFilters = isFilterActive({ ...filter, query: '' });
+
+  const update = (field: keyof ScanFilter, value: string) => onChange({ ...filter, [field]: value });
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex gap-1">
+        <input type="search" value={filter.query} onChange={e => update('query', e.target.value)}
+          placeholder="Search merchants, items, tags..."
+          aria-label="Search scan history"
+          className="flex-1 min-w-0 bg-gray-800 rounded-md px-2 py-1.5 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0" />
+        <button onClick={() => setIsExpanded(expanded => !expanded)} title="Filters"
+          className={`relative p-1.5 rounded-md hover:bg-gray-700 ${isExpanded ? 'text-blue-400' : 'text-gray-400 hover:text-white'}`}>
+          <AdjustmentsHorizontalIcon className="w-5 h-5" />
+          {hasFieldFilters && <span className="absolute top-1 right-1 w-2 h-2 bg-blue-500 rounded-full" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="p-2 bg-gray-800 rounded-lg grid grid-cols-2 gap-2">
+          <label className="text-xs text-gray-400">From
+            <input type="date" value={filter.fromDate} onChange={e => update('fromDate', e.target.value)} className={fieldClassName} />
+          </label>
+          <label className="text-xs text-gray-400">To
+            <input type="date" value={filter.toDate} onChange={e => update('toDate', e.target.value)} className={fieldClassName} />
+          </label>
+          <label className="text-xs text-gray-400">Min total
+            <input type="number" min="0" step="0.01" value={filter.minAmount} onChange={e => update('minAmount', e.target.value)} className={fieldClassName} />
+          </label>
+          <label className="text-xs text-gray-400">Max total
+            <input type="number" min="0" step="0.01" value={filter.maxAmount} onChange={e => update('maxAmount', e.target.value)} className={fieldClassName} />
+          </label>
+          <label className="col-span-2 text-xs text-gray-400">Tag
+            <select value={filter.tag} onChange={e => update('tag', e.target.value)} className={fieldClassName}>
+              <option value="">Any tag</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+          </label>
+          {isFilterActive(filter) && (
+            <button onClick={() => onChange(EMPTY_SCAN_FILTER)} className="col-span-2 flex items-center justify-center gap-1 text-xs font-semibold text-blue-400 hover:text-blue-300">
+              <XMarkIcon className="w-3.5 h-3.5" /> Clear filters
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScanHistoryFilters;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { MAX_QUEUE_CONCURRENCY, ScanQueueItem, ScanQueueStatus, isFinished } from '../services/scanQueue';
+import { ArrowPathIcon, XMarkIcon } from './IconComponents';
+
+interface ScanQueueProps {
+  queue: ScanQueueItem[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  onClearFinished: () => void;
+  onOpen: (item: ScanQueueItem) => void;
+}
+
+const STATUS_STYLES: Record<ScanQueueStatus, string> = {
+  queued: 'bg-gray-600 text-gray-200',
+  scanning: 'bg-blue-700 text-blue-100 animate-pulse',
+  cancelling: 'bg-gray-700 text-gray-400 animate-pulse',
+  done: 'bg-green-800 text-green-100',
+  failed: 'bg-red-800 text-red-100',
+  cancelled: 'bg-gray-700 text-gray-400',
+};
+
+/**
+ * The batch scan queue: progress, per-file status and the controls to retry,
+ * cancel or clear entries.
+ */
+const ScanQueue: React.FC<ScanQueueProps> = ({
+  queue, concurrency, onConcurrencyChange, onRetry, onCancel, onCancelAll, onClearFinished, onOpen,
+}) => {
+  const doneCount = queue.filter(item => item.status === 'done').length;
+  const hasPending = queue.some(item => !isFinished(item));
+
+  return (
+    <div className="mb-4 p-3 bg-gray-800 rounded-lg space-y-2 text-sm">
+      <div className="flex justify-between items-center">
+        <h4 className="text-xs font-bold text-gray-400 uppercase">Batch ({doneCount}/{queue.length} done)</h4>
+        <label className="flex items-center gap-1 text-xs text-gray-400">
+          Parallel
+          <select value={concurrency} onChange={e => onConcurrencyChange(parseInt(e.target.value, 10))}
+            className="bg-gray-700 rounded px-1 py-0.5 text-xs border border-gray-600 focus:border-blue-500 focus:ring-0">
+            {Array.from({ length: MAX_QUEUE_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+      <ul className="max-h-48 overflow-y-auto space-y-1">
+        {queue.map(item => (
+          <li key={item.id} className="flex items-center gap-2">
+            <button onClick={() => onOpen(item)} disabled={!item.scan} title={item.error ?? item.file.name}
+              className="flex-1 min-w-0 text-left text-xs text-gray-200 truncate enabled:hover:text-white disabled:cursor-default">
+              {item.file.name}
+            </button>
+            <span className={`text-[10px] px-1.5 rounded-full ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+            {(item.status === 'failed' || item.status === 'cancelled') && (
+              <button onClick={() => onRetry(item.id)} title="Retry" className="text-gray-400 hover:text-white">
+                <ArrowPathIcon className="w-4 h-4" />
+              </button>
+            )}
+            {!isFinished(item) && item.status !== 'cancelling' && (
+              <button onClick={() => onCancel(item.id)} title="Cancel" className="text-gray-400 hover:text-white">
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <button onClick={onCancelAll} disabled={!hasPending}
+          className="flex-1 text-xs font-semibold bg-gray-600 hover:bg-gray-500 py-1 rounded-md disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed">
+          Cancel all
+        </button>
+        <button onClick={onClearFinished} disabled={!queue.some(isFinished)}
+          className="flex-1 text-xs font-semibold bg-gray-600 hover:bg-gray-500 py-1 rounded-md disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed">
+          Clear finished
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScanQueue;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { SpendingSummary as Summary, SpendingTotal } from '../services/scanFilters';
+import { formatAmount } from '../services/billAmounts';
+
+interface SpendingSummaryProps {
+  summary: Summary;
+}
+
+const formatMonth = (month: string): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+const TotalsTable: React.FC<{ title: string, rows: SpendingTotal[], formatKey?: (key: string) => string }> = ({ title, rows, formatKey = key => key }) => (
+  <div>
+    <h4 className="text-xs font-bold text-gray-400 uppercase mb-1">{title}</h4>
+    {rows.length === 0 ? (
+      <p className="text-xs text-gray-500">No bills with a readable total.</p>
+    ) : (
+      <table className="w-full text-xs">
+        <tbody>
+          {rows.map(row => (
+            <tr key={`${row.key}-${row.currency}`} className="border-b border-gray-700/60 last:border-0">
+              <td className="py-1 pr-2 text-gray-200 truncate max-w-[8rem]">{formatKey(row.key)}</td>
+              <td className="py-1 pr-2 text-gray-500 text-right">{row.count}×</td>
+              <td className="py-1 text-right font-semibold text-gray-100">{formatAmount(row.total, row.currency || undefined)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+/**
+ * Spending totals per tag and per month for the bills in the current filter.
+ */
+const SpendingSummary: React.FC<SpendingSummaryProps> = ({ summary }) => (
+  <div className="mb-3 p-3 bg-gray-800 rounded-lg space-y-3">
+    <TotalsTable title="By tag" rows={summary.byTag} />
+    <TotalsTable title="By month" rows={summary.byMonth} formatKey={formatMonth} />
+  </div>
+);
+
+export default SpendingSummary;
@@ -0,0 +1,87 @@
+import React, { useEffect, useRef } from 'react';
+import { OcrBlock } from '../types';
+import { OcrExportFormat } from '../services/ocrExport';
+import { ArrowDownTrayIcon } from './IconComponents';
+
+interface StructuredOcrDisplayProps {
+  blocks: OcrBlock[];
+  selectedIndex: number | null;
+  onSelect: (index: number | null) => void;
+  onExport: (format: OcrExportFormat) => void;
+}
+
+const EXPORT_FORMATS: { format: OcrExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'hocr', label: 'hOCR' },
+];
+
+const BlockContent: React.FC<{ block: OcrBlock }> = ({ block }) => {
+  if (block.type === 'table') {
+    return (
+      <table className="w-full text-xs border-collapse">
+        <tbody>
+          {block.rows.map((row, i) => (
+            <tr key={i} className={i === 0 ? 'font-semibold text-gray-100' : 'text-gray-300'}>
+              {row.map((cell, j) => <td key={j} className="border border-gray-600 px-1.5 py-0.5">{cell}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+  return (
+    <div className={block.type === 'heading' ? 'text-base font-bold text-gray-100' : 'text-sm text-gray-300'}>
+      {block.lines.map((line, i) => <p key={i}>{line.text}</p>)}
+    </div>
+  );
+};
+
+/**
+ * Lists structured OCR blocks in reading order. The selected block, picked
+ * here or on the image overlay, is highlighted and scrolled into view.
+ */
+const StructuredOcrDisplay: React.FC<StructuredOcrDisplayProps> = ({ blocks, selectedIndex, onSelect, onExport }) => {
+  const blockRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    if (selectedIndex !== null) blockRefs.current[selectedIndex]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selectedIndex]);
+
+  return (
+    <div className="p-4 bg-gray-700 rounded-lg h-full flex flex-col">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-200">Document Layout</h3>
+        <div className="flex items-center gap-1">
+          <ArrowDownTrayIcon className="w-4 h-4 text-gray-400 mr-1" />
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button key={format} onClick={() => onExport(format)} disabled={blocks.length === 0}
+              className="text-xs font-semibold bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded-md transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed">
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {blocks.length === 0 ? (
+        <p className="text-gray-500 text-center p-4">No text found.</p>
+      ) : (
+        <div className="flex-grow overflow-y-auto space-y-2 pr-1">
+          {blocks.map((block, i) => (
+            <div
+              key={i}
+              ref={el => { blockRefs.current[i] = el; }}
+              onClick={() => onSelect(selectedIndex === i ? null : i)}
+              className={`p-2 rounded-md cursor-pointer border transition-colors select-text ${selectedIndex === i
+                ? 'border-yellow-400 bg-yellow-900/20'
+                : 'border-transparent bg-gray-800 hover:border-gray-500'}`}
+            >
+              <span className="block text-[10px] uppercase font-bold text-gray-500 mb-0.5">{block.type}</span>
+              <BlockContent block={block} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StructuredOcrDisplay;
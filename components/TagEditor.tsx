@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { normalizeTags } from '../services/scanFilters';
+import { XMarkIcon } from './IconComponents';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** Existing tags offered as completions. */
+  suggestions: string[];
+}
+
+/**
+ * Edits a list of tags as chips. Enter or a comma adds the typed tag;
+ * Backspace in an empty field removes the last one.
+ */
+const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange, suggestions }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = () => {
+    if (!draft.trim()) return;
+    onChange(normalizeTags([...tags, draft]));
+    setDraft('');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault();
+      addTag();
+    } else if (event.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 p-2 bg-gray-700 rounded-lg">
+      <span className="text-xs font-bold text-gray-400 uppercase mr-1">Tags</span>
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 bg-blue-900/60 text-blue-200 text-xs px-2 py-0.5 rounded-full">
+          {tag}
+          <button onClick={() => onChange(tags.filter(t => t !== tag))} title={`Remove ${tag}`} className="hover:text-white">
+            <XMarkIcon className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <input type="text" value={draft} list="scan-tag-suggestions"
+        onChange={e => setDraft(e.target.value)} onKeyDown={handleKeyDown} onBlur={addTag}
+        placeholder={tags.length === 0 ? 'Add a tag, e.g. Travel' : 'Add tag'}
+        aria-label="Add tag"
+        className="flex-1 min-w-[6rem] bg-transparent text-sm border-0 focus:ring-0 p-0.5" />
+      <datalist id="scan-tag-suggestions">
+        {suggestions.filter(s => !tags.includes(s)).map(s => <option key={s} value={s} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { ExtractionTemplate, TemplateColumn, TemplateField, TemplateFieldType } from '../types';
+import { createTemplate, toFieldKey } from '../services/templateStore';
+import { PlusIcon, TrashIcon, XMarkIcon } from './IconComponents';
+import PresetEditorModal from './PresetEditorModal';
+
+interface TemplateEditorProps {
+  templates: ExtractionTemplate[];
+  initialTemplateId: string;
+  onSave: (template: ExtractionTemplate) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const FIELD_TYPES: { type: TemplateFieldType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'table', label: 'Table' },
+];
+
+const hasDuplicates = (keys: string[]) => new Set(keys).size !== keys.length;
+
+const fieldKey = (field: TemplateField, index: number) => toFieldKey(field.label, `field${index + 1}`);
+const columnKey = (column: TemplateColumn, index: number) => toFieldKey(column.label, `column${index + 1}`);
+
+/**
+ * Returns an error message for an invalid template, or null if it is valid.
+ */
+const validateTemplate = (template: ExtractionTemplate): string | null => {
+  if (!template.name.trim()) return 'Please give the template a name.';
+  if (template.fields.length === 0) return 'Add at least one field.';
+  if (template.fields.some(field => !field.label.trim())) return 'Every field needs a name.';
+  if (hasDuplicates(template.fields.map(fieldKey))) return 'Field names must be different from each other.';
+  for (const field of template.fields.filter(f => f.type === 'table')) {
+    const columns = field.columns ?? [];
+    if (columns.length === 0) return `Add at least one column to "${field.label}".`;
+    if (columns.some(column => !column.label.trim())) return `Every column of "${field.label}" needs a name.`;
+    if (hasDuplicates(columns.map(columnKey))) return `Column names of "${field.label}" must be different from each other.`;
+  }
+  return null;
+};
+
+/** Derives the result keys from the labels the user typed. */
+const withKeys = (template: ExtractionTemplate): ExtractionTemplate => ({
+  ...template,
+  name: template.name.trim(),
+  fields: template.fields.map(({ columns, ...field }, index) => ({
+    ...field,
+    key: fieldKey(field, index),
+    ...(field.type === 'table' ? { columns: (columns ?? []).map((column, i) => ({ ...column, key: columnKey(column, i) })) } : {}),
+  })),
+});
+
+const inputClassName = 'w-full bg-gray-700 rounded px-2 py-1.5 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0 disabled:opacity-60';
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ templates, initialTemplateId, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<ExtractionTemplate>(() => templates.find(t => t.id === initialTemplateId) ?? createTemplate());
+  const [error, setError] = useState<string | null>(null);
+
+  const isReadOnly = !!draft.builtIn;
+
+  const selectTemplate = (template: ExtractionTemplate) => {
+    setDraft(template);
+    setError(null);
+  };
+
+  const updateField = (index: number, changes: Partial<TemplateField>) =>
+    setDraft(prev => ({ ...prev, fields: prev.fields.map((field, i) => i === index ? { ...field, ...changes } : field) }));
+
+  const handleTypeChange = (index: number, type: TemplateFieldType) =>
+    updateField(index, type === 'table'
+      ? { type, columns: draft.fields[index].columns ?? [{ key: 'column1', label: 'Column 1', type: 'text' }] }
+      : { type });
+
+  const updateColumn = (fieldIndex: number, columnIndex: number, changes: Partial<TemplateColumn>) =>
+    updateField(fieldIndex, {
+      columns: (draft.fields[fieldIndex].columns ?? []).map((column, i) => i === columnIndex ? { ...column, ...changes } : column),
+    });
+
+  const handleSave = () => {
+    const validationError = validateTemplate(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    const saved = withKeys(draft);
+    onSave(saved);
+    setDraft(saved);
+    setError(null);
+  };
+
+  return (
+    <PresetEditorModal
+      items={templates}
+      draft={draft}
+      noun="Template"
+      create={createTemplate}
+      onSelect={selectTemplate}
+      onSave={handleSave}
+      onDelete={onDelete}
+      onClose={onClose}
+      error={error}
+    >
+      <div>
+        <label htmlFor="template-name" className="block text-xs font-medium text-gray-400 mb-1">Name</label>
+        <input id="template-name" type="text" value={draft.name} disabled={isReadOnly}
+          onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+          className={inputClassName} />
+      </div>
+      <div>
+        <label htmlFor="template-description" className="block text-xs font-medium text-gray-400 mb-1">Document description</label>
+        <input id="template-description" type="text" value={draft.description ?? ''} disabled={isReadOnly}
+          onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))}
+          placeholder="e.g., A customs declaration form."
+          className={inputClassName} />
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-400">Fields</p>
+        {draft.fields.map((field, index) => (
+          <div key={index} className="p-2 bg-gray-900/50 rounded-md space-y-2">
+            <div className="flex items-center gap-2">
+              <input type="text" value={field.label} disabled={isReadOnly} aria-label="Field name" placeholder="Field name"
+                onChange={e => updateField(index, { label: e.target.value })}
+                className={inputClassName} />
+              <select value={field.type} disabled={isReadOnly} aria-label="Field type"
+                onChange={e => handleTypeChange(index, e.target.value as TemplateFieldType)}
+                className="bg-gray-700 rounded px-2 py-1.5 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0 disabled:opacity-60">
+                {FIELD_TYPES.map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+              </select>
+              {!isReadOnly && (
+                <button onClick={() => setDraft(prev => ({ ...prev, fields: prev.fields.filter((_, i) => i !== index) }))} title="Remove field"
+                  className="p-1 text-gray-400 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+              )}
+            </div>
+            <input type="text" value={field.description ?? ''} disabled={isReadOnly} aria-label="Field hint"
+              onChange={e => updateField(index, { description: e.target.value })}
+              placeholder="Hint for the model (optional)"
+              className={inputClassName} />
+            {field.type === 'table' && (
+              <div className="pl-4 space-y-1">
+                {(field.columns ?? []).map((column, columnIndex) => (
+                  <div key={columnIndex} className="flex items-center gap-2">
+                    <input type="text" value={column.label} disabled={isReadOnly} aria-label="Column name" placeholder="Column name"
+                      onChange={e => updateColumn(index, columnIndex, { label: e.target.value })}
+                      className={inputClassName} />
+                    <select value={column.type} disabled={isReadOnly} aria-label="Column type"
+                      onChange={e => updateColumn(index, columnIndex, { type: e.target.value as TemplateColumn['type'] })}
+                      className="bg-gray-700 rounded px-2 py-1.5 text-sm border border-gray-600 focus:border-blue-500 focus:ring-0 disabled:opacity-60">
+                      {FIELD_TYPES.filter(({ type }) => type !== 'table').map(({ type, label }) => <option key={type} value={type}>{label}</option>)}
+                    </select>
+                    {!isReadOnly && (
+                      <button onClick={() => updateField(index, { columns: (field.columns ?? []).filter((_, i) => i !== columnIndex) })} title="Remove column"
+                        className="p-1 text-gray-400 hover:text-red-400"><XMarkIcon className="w-4 h-4" /></button>
+                    )}
+                  </div>
+                ))}
+                {!isReadOnly && (
+                  <button onClick={() => updateField(index, { columns: [...(field.columns ?? []), { key: '', label: '', type: 'text' }] })}
+                    className="flex items-center gap-1 text-xs font-semibold text-blue-400 hover:text-blue-300">
+                    <PlusIcon className="w-3.5 h-3.5" /> Add column
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        {!isReadOnly && (
+          <button onClick={() => setDraft(prev => ({ ...prev, fields: [...prev.fields, { key: '', label: '', type: 'text' }] }))}
+            className="flex items-center gap-1 text-xs font-semibold text-blue-400 hover:text-blue-300">
+            <PlusIcon className="w-3.5 h-3.5" /> Add field
+          </button>
+        )}
+      </div>
+    </PresetEditorModal>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ExtractionTemplate, TemplateColumn, TemplateField, TemplateResult, TemplateRow, TemplateValue } from '../types';
+import { CheckIcon, ClipboardDocumentIcon, PlusIcon, TrashIcon } from './IconComponents';
+
+interface TemplateResultDisplayProps {
+  template: ExtractionTemplate;
+  result: TemplateResult;
+  onChange: (result: TemplateResult) => void;
+}
+
+const inputClassName = 'bg-gray-800 rounded px-2 py-1 text-sm w-full border border-transparent focus:border-blue-500 focus:ring-0';
+
+const INPUT_TYPES: Record<TemplateColumn['type'], string> = { text: 'text', number: 'number', date: 'date' };
+
+/** Parses an input's text back into a value of the field's type; empty means not found. */
+const parseValue = (type: TemplateColumn['type'], text: string): TemplateValue => {
+  if (text === '') return null;
+  if (type === 'number') {
+    const value = Number(text);
+    return Number.isNaN(value) ? text : value;
+  }
+  return text;
+};
+
+/**
+ * The input type for a value. Number and date inputs show text they cannot
+ * parse as blank, so such values (e.g. a date the model did not give as
+ * YYYY-MM-DD) stay in a text input where they can be seen and corrected.
+ */
+const inputTypeFor = (type: TemplateColumn['type'], value: TemplateValue): string => {
+  if (value === null) return INPUT_TYPES[type];
+  if (type === 'number') return typeof value === 'number' ? 'number' : 'text';
+  if (type === 'date') return /^\d{4}-\d{2}-\d{2}$/.test(String(value)) ? 'date' : 'text';
+  return INPUT_TYPES[type];
+};
+
+const asRows = (value: TemplateResult[string] | undefined): TemplateRow[] => Array.isArray(value) ? value : [];
+
+const asValue = (value: TemplateResult[string] | undefined): TemplateValue => Array.isArray(value) ? null : value ?? null;
+
+/**
+ * An editable form for the result of any extraction template: one input per
+ * field, and an editable table for table fields.
+ */
+const TemplateResultDisplay: React.FC<TemplateResultDisplayProps> = ({ template, result, onChange }) => {
+  const [copied, setCopied] = useState(false);
+
+  const setField = (key: string, value: TemplateResult[string]) => onChange({ ...result, [key]: value });
+
+  const updateRows = (field: TemplateField, update: (rows: TemplateRow[]) => TemplateRow[]) =>
+    setField(field.key, update(asRows(result[field.key])));
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(JSON.stringify(result, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const renderTable = (field: TemplateField) => {
+    const columns = field.columns ?? [];
+    const rows = asRows(result[field.key]);
+    return (
+      <div key={field.key} className="col-span-2">
+        <p className="text-xs font-bold text-gray-400 uppercase mb-1">{field.label}</p>
+        <div className="space-y-1">
+          <div className="flex gap-1 text-[11px] text-gray-500 pr-6">
+            {columns.map(column => <span key={column.key} className="flex-1 min-w-0 truncate">{column.label}</span>)}
+          </div>
+          {rows.map((row, rowIndex) => (
+            <div key={rowIndex} className="group flex items-center gap-1">
+              {columns.map(column => (
+                <input key={column.key} type={inputTypeFor(column.type, row[column.key] ?? null)} value={row[column.key] ?? ''} aria-label={`${column.label}, row ${rowIndex + 1}`}
+                  onChange={e => updateRows(field, prev => prev.map((r, i) => i === rowIndex ? { ...r, [column.key]: parseValue(column.type, e.target.value) } : r))}
+                  className={`${inputClassName} flex-1 min-w-0 ${column.type === 'number' ? 'text-right' : ''}`} />
+              ))}
+              <button onClick={() => updateRows(field, prev => prev.filter((_, i) => i !== rowIndex))} title="Delete row"
+                className="p-0.5 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button onClick={() => updateRows(field, prev => [...prev, Object.fromEntries(columns.map(column => [column.key, null]))])}
+            className="flex items-center gap-1 text-xs font-semibold text-blue-400 hover:text-blue-300">
+            <PlusIcon className="w-3.5 h-3.5" /> Add row
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-4 bg-gray-700 rounded-lg h-full overflow-y-auto">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-200">{template.name}</h3>
+        <button onClick={handleCopy} className="flex items-center gap-2 text-sm bg-gray-600 hover:bg-gray-500 px-3 py-1.5 rounded-md transition-colors">
+          {copied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <ClipboardDocumentIcon className="w-4 h-4" />}
+          {copied ? 'Copied!' : 'Copy JSON'}
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {template.fields.map(field => {
+          if (field.type === 'table') return renderTable(field);
+          const type = field.type;
+          const value = asValue(result[field.key]);
+          return (
+            <div key={field.key} className={type === 'text' ? 'col-span-2' : undefined}>
+              <label htmlFor={`template-${field.key}`} className="block text-xs font-bold text-gray-400 uppercase mb-1">{field.label}</label>
+              <input id={`template-${field.key}`} type={inputTypeFor(type, value)} value={value ?? ''}
+                onChange={e => setField(field.key, parseValue(type, e.target.value))}
+                placeholder="Not found" className={inputClassName} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateResultDisplay;
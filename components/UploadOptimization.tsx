@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import {
+  ImageOutputFormat, MAX_DIMENSION_CHOICES, PayloadSize, PreprocessOptions,
+  formatBytes, loadPreprocessOptions, savePreprocessOptions,
+} from '../services/imagePreprocessing';
+import { AdjustmentsHorizontalIcon } from './IconComponents';
+
+interface UploadOptimizationProps {
+  /** Size of the last upload, shown as "before → after". */
+  size: PayloadSize | null;
+}
+
+/**
+ * The upload size of the last request and a panel to change how images are
+ * shrunk before sending. The options are shared by every tool.
+ */
+const UploadOptimization: React.FC<UploadOptimizationProps> = ({ size }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<PreprocessOptions>(loadPreprocessOptions);
+
+  const updateOptions = (changes: Partial<PreprocessOptions>) => {
+    const next = { ...options, ...changes };
+    setOptions(next);
+    savePreprocessOptions(next);
+  };
+
+  const saving = size && size.originalBytes > 0 ? Math.round((1 - size.bytes / size.originalBytes) * 100) : 0;
+
+  return (
+    <div className="text-xs text-gray-400">
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate">
+          {size
+            ? <>Upload: {formatBytes(size.originalBytes)} → {formatBytes(size.bytes)}{saving > 0 && ` (−${saving}%)`}</>
+            : 'Images are resized before upload.'}
+        </span>
+        <button onClick={() => setIsOpen(open => !open)} title="Upload size settings"
+          className={`p-1 hover:text-white ${isOpen ? 'text-blue-400' : 'text-gray-400'}`}>
+          <AdjustmentsHorizontalIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {isOpen && (
+        <div className="mt-2 p-3 bg-gray-800 rounded-lg space-y-2 text-sm">
+          <label className="flex items-center justify-between gap-2 text-gray-300">
+            Max size
+            <select value={options.maxDimension} onChange={e => updateOptions({ maxDimension: parseInt(e.target.value, 10) })}
+              className="bg-gray-700 rounded px-2 py-1 border border-gray-600 focus:border-blue-500 focus:ring-0">
+              {MAX_DIMENSION_CHOICES.map(px => <option key={px} value={px}>{px} px</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2 text-gray-300">
+            Format
+            <select value={options.format} onChange={e => updateOptions({ format: e.target.value as ImageOutputFormat })}
+              className="bg-gray-700 rounded px-2 py-1 border border-gray-600 focus:border-blue-500 focus:ring-0">
+              <option value="image/jpeg">JPEG</option>
+              <option value="image/webp">WebP</option>
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2 text-gray-300">
+            Quality
+            <span className="flex items-center gap-2">
+              <input type="range" min="0.5" max="1" step="0.05" value={options.quality}
+                onChange={e => updateOptions({ quality: parseFloat(e.target.value) })}
+                className="w-28 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer" />
+              <span className="w-8 text-right">{Math.round(options.quality * 100)}</span>
+            </span>
+          </label>
+          <p className="text-xs text-gray-400">Photo metadata is removed; orientation is kept.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UploadOptimization;
@@ -0,0 +1,248 @@
+import { BillData, BillItem } from '../types';
+
+/**
+ * A numeric reading of a free-text amount such as "$12.50", "1kg" or "(3,00 €)".
+ * `raw` is always the original text, so nothing the model returned is lost.
+ */
+export interface ParsedAmount {
+  raw: string;
+  /** The numeric value, or null if no number could be found. */
+  value: number | null;
+  /** A unit written next to the number, e.g. "kg" or "pcs". */
+  unit?: string;
+  /** ISO 4217 code detected from a symbol or code in the text. */
+  currency?: string;
+}
+
+export interface BillValidation {
+  /** Sum of the line items, or null if none of them could be parsed. */
+  itemsTotal: number | null;
+  /** What the total should be according to the extracted breakdown. */
+  expectedTotal: number | null;
+  /** The parsed bill total. */
+  total: number | null;
+  warnings: string[];
+}
+
+// Symbols are matched longest first so "R$" wins over "$". "$" alone is
+// ambiguous; the bill's own currency code takes precedence when there is one.
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'], ['A$', 'AUD'], ['C$', 'CAD'], ['R$', 'BRL'], ['HK$', 'HKD'],
+  ['$', 'USD'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₹', 'INR'],
+  ['₩', 'KRW'], ['₽', 'RUB'], ['₺', 'TRY'], ['฿', 'THB'], ['₪', 'ILS'], ['₱', 'PHP'],
+];
+
+const CURRENCY_CODES = new Set([
+  ...CURRENCY_SYMBOLS.map(([, code]) => code),
+  'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'HUF', 'MXN', 'NZD', 'SGD', 'ZAR', 'CNY', 'AED', 'SAR',
+]);
+
+/**
+ * The first number in a string, including any grouping and decimal separators.
+ * A space only groups when exactly three digits follow, so "2 12.50" is two numbers.
+ */
+const NUMBER_PATTERN = /\d+(?:[.,']\d+|\s\d{3}(?!\d))*/;
+
+/** Rounding slack allowed when comparing sums, in the bill's currency. */
+const ROUNDING_TOLERANCE = 0.02;
+/**
+ * When no tax lines were extracted, a total up to this much above the items is
+ * still accepted, as it is most likely unlisted or included tax.
+ */
+const MAX_UNLISTED_TAX_RATE = 0.25;
+
+/**
+ * Turns a number written with any common grouping style into a JS number,
+ * e.g. "1,234.56", "1.234,56", "1 234,56" and "12,50".
+ */
+const normalizeNumber = (digits: string): number => {
+  let text = digits.replace(/[\s' ]/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Both separators: whichever comes last is the decimal point.
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const grouping = decimal === ',' ? '.' : ',';
+    text = text.split(grouping).join('').replace(decimal, '.');
+  } else if (lastComma !== -1) {
+    const groups = text.split(',');
+    // "1,250" and "1,250,000" are grouping; "12,50" is a decimal comma.
+    const isGrouping = groups.length > 2 || groups[1].length === 3;
+    text = isGrouping ? groups.join('') : groups.join('.');
+  } else if (text.split('.').length > 2) {
+    text = text.split('.').join('');
+  }
+  return parseFloat(text);
+};
+
+/**
+ * Parses an amount or quantity returned by the model. Plain numbers pass
+ * through unchanged.
+ */
+export const parseAmount = (input: number | string | undefined | null): ParsedAmount => {
+  if (typeof input === 'number') {
+    return { raw: String(input), value: Number.isFinite(input) ? input : null };
+  }
+  const raw = input ?? '';
+  let text = raw.trim();
+  if (!text) return { raw, value: null };
+
+  let currency: string | undefined;
+  for (const [symbol, code] of CURRENCY_SYMBOLS) {
+    if (text.includes(symbol)) {
+      currency = code;
+      text = text.replace(symbol, ' ');
+      break;
+    }
+  }
+  const codeMatch = text.match(/\b([A-Z]{3})\b/);
+  if (codeMatch && CURRENCY_CODES.has(codeMatch[1])) {
+    currency = codeMatch[1];
+    text = text.replace(codeMatch[0], ' ');
+  }
+
+  const numberMatch = text.match(NUMBER_PATTERN);
+  if (!numberMatch) return { raw, value: null, currency };
+
+  let value = normalizeNumber(numberMatch[0]);
+  const before = text.slice(0, numberMatch.index);
+  const after = text.slice(numberMatch.index! + numberMatch[0].length);
+  if (/[-−]\s*$/.test(before) || /^\s*-/.test(after) || (/\(\s*$/.test(before) && /^\s*\)/.test(after))) {
+    value = -value;
+  }
+
+  // "2x" and "x2" are multiplier notation, not a unit.
+  const unitMatch = after.match(/^\s*([a-zA-Zµ]+\.?)/);
+  const unit = unitMatch && !/^x$/i.test(unitMatch[1]) ? unitMatch[1].replace(/\.$/, '') : undefined;
+
+  return { raw, value: Number.isFinite(value) ? value : null, unit, currency };
+};
+
+/**
+ * Formats a parsed value for display in the bill's currency, falling back to
+ * two decimals when the currency code is missing or unknown.
+ */
+export const formatAmount = (value: number, currency?: string): string => {
+  if (currency) {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+    } catch {
+      // Not a currency Intl knows about.
+    }
+  }
+  return value.toFixed(2);
+};
+
+const sumAmounts = (amounts: (number | string)[], absolute = false): number | null => {
+  const values = amounts.map(amount => parseAmount(amount).value);
+  if (values.some(value => value === null)) return null;
+  return values.reduce<number>((sum, value) => sum + (absolute ? Math.abs(value!) : value!), 0);
+};
+
+const isClose = (a: number, b: number) => Math.abs(a - b) <= ROUNDING_TOLERANCE;
+
+/**
+ * Checks that the line items, subtotal, adjustments and total of a bill agree
+ * with each other, and returns a warning for every mismatch.
+ */
+export const validateBill = (bill: BillData): BillValidation => {
+  const warnings: string[] = [];
+  const format = (value: number) => formatAmount(value, bill.currency || undefined);
+
+  const unreadable = bill.items.filter(item => item.price !== '' && parseAmount(item.price).value === null);
+  if (unreadable.length > 0) {
+    warnings.push(`Could not read the price of ${unreadable.map(item => `"${item.name || 'unnamed item'}"`).join(', ')}.`);
+  }
+
+  const total = parseAmount(bill.total).value;
+  if (total === null) {
+    warnings.push('Could not read the bill total.');
+  }
+
+  // Most receipts print the line total in the price column, but some print
+  // the unit price, so accept either reading when it makes the numbers agree.
+  const lineTotals = bill.items.map(item => parseAmount(item.price).value ?? 0);
+  const unitTotals = bill.items.map((item, i) => lineTotals[i] * (parseAmount(item.quantity).value ?? 1));
+  const lineSum = lineTotals.reduce((sum, value) => sum + value, 0);
+  const unitSum = unitTotals.reduce((sum, value) => sum + value, 0);
+  const subtotal = bill.subtotal !== undefined && bill.subtotal !== '' ? parseAmount(bill.subtotal).value : null;
+
+  let itemsTotal: number | null = bill.items.length > 0 ? lineSum : null;
+  if (itemsTotal !== null && subtotal !== null && !isClose(lineSum, subtotal) && isClose(unitSum, subtotal)) {
+    itemsTotal = unitSum;
+  }
+  if (itemsTotal !== null && subtotal !== null && !isClose(itemsTotal, subtotal)) {
+    warnings.push(`Line items add up to ${format(itemsTotal)}, but the subtotal is ${format(subtotal)}.`);
+  }
+
+  const taxes = sumAmounts((bill.taxes ?? []).map(tax => tax.amount));
+  // Discounts are subtracted whether the model wrote them as "-1.00" or "1.00".
+  const discounts = sumAmounts((bill.discounts ?? []).map(discount => discount.amount), true);
+  const tip = bill.tip !== undefined && bill.tip !== '' ? parseAmount(bill.tip).value : 0;
+  if (taxes === null || discounts === null || tip === null) {
+    warnings.push('Some tax, discount or tip amounts could not be read.');
+  }
+
+  const base = subtotal ?? itemsTotal;
+  const expectedTotal = base === null ? null : base + (taxes ?? 0) - (discounts ?? 0) + (tip ?? 0);
+
+  if (expectedTotal !== null && total !== null && !isClose(expectedTotal, total)) {
+    const unlistedTax = total - expectedTotal;
+    const hasListedTax = (bill.taxes ?? []).length > 0;
+    const isLikelyTax = !hasListedTax && unlistedTax > 0 && unlistedTax <= Math.abs(base!) * MAX_UNLISTED_TAX_RATE;
+    if (!isLikelyTax) {
+      warnings.push(`The breakdown adds up to ${format(expectedTotal)}, but the total is ${format(total)}.`);
+    }
+  }
+
+  return { itemsTotal, expectedTotal, total, warnings };
+};
+
+/**
+ * Writes `value` in the same style as `template`, so a recalculated "$13.75"
+ * stays a dollar string and "12,50 €" keeps its decimal comma.
+ */
+export const formatLike = (value: number, template: number | string | undefined, decimals: number = 2): number | string => {
+  if (typeof template !== 'string' || !NUMBER_PATTERN.test(template)) return Number(value.toFixed(decimals));
+  // The template already carries its own sign, e.g. "-$1.00" or "(1.00)".
+  const isNegativeTemplate = (parseAmount(template).value ?? 0) < 0;
+  let text = (isNegativeTemplate ? Math.abs(value) : value).toFixed(decimals);
+  if (/\d,\d{1,2}(?!\d)/.test(template) && !/\d\.\d{1,2}(?!\d)/.test(template)) {
+    text = text.replace('.', ',');
+  }
+  return template.replace(NUMBER_PATTERN, text);
+};
+
+/** Sums the price column, which holds the total for each line. Unreadable prices count as zero. */
+const sumLineItems = (items: BillItem[]): number =>
+  items.reduce((sum, item) => sum + (parseAmount(item.price).value ?? 0), 0);
+
+/** Taxes and tip minus discounts. Unreadable amounts count as zero. */
+const sumAdjustments = (bill: BillData): number =>
+  (sumAmounts((bill.taxes ?? []).map(tax => tax.amount)) ?? 0)
+  - (sumAmounts((bill.discounts ?? []).map(discount => discount.amount), true) ?? 0)
+  + (parseAmount(bill.tip).value ?? 0);
+
+/**
+ * Updates the subtotal and total of `next` after an edit to its line items or
+ * adjustments. Totals are shifted by the change rather than rebuilt, so any
+ * amount the breakdown does not explain (such as unlisted tax) is kept, and an
+ * existing mismatch stays visible to `validateBill`.
+ */
+export const recalculateTotals = (previous: BillData, next: BillData): BillData => {
+  const itemsDelta = sumLineItems(next.items) - sumLineItems(previous.items);
+  const adjustmentsDelta = sumAdjustments(next) - sumAdjustments(previous);
+  if (Math.abs(itemsDelta) < 0.005 && Math.abs(adjustmentsDelta) < 0.005) return next;
+
+  const result = { ...next };
+  const subtotal = parseAmount(next.subtotal).value;
+  if (subtotal !== null) {
+    result.subtotal = formatLike(subtotal + itemsDelta, next.subtotal);
+  }
+  const total = parseAmount(next.total).value;
+  result.total = total !== null
+    ? formatLike(total + itemsDelta + adjustmentsDelta, next.total)
+    : formatLike(sumLineItems(next.items) + sumAdjustments(next), undefined);
+  return result;
+};
@@ -0,0 +1,75 @@
+import { BillData, BillItem } from '../types';
+import { parseAmount } from './billAmounts';
+
+/** One row of a side-by-side comparison of two extractions of the same bill. */
+export interface BillFieldDiff {
+  label: string;
+  saved: string;
+  rescanned: string;
+  changed: boolean;
+}
+
+type Value = string | number | undefined;
+
+const display = (value: Value): string => value === undefined || value === '' ? '—' : String(value);
+
+const isSameText = (a: Value, b: Value): boolean =>
+  display(a).trim().toLowerCase() === display(b).trim().toLowerCase();
+
+/**
+ * Amounts count as equal when they parse to the same number, so "$3.50" and
+ * 3.5 are not reported as a change.
+ */
+const isSameAmount = (a: Value, b: Value): boolean => {
+  if (isSameText(a, b)) return true;
+  const parsedA = parseAmount(a);
+  const parsedB = parseAmount(b);
+  return parsedA.value !== null && parsedA.value === parsedB.value && parsedA.unit === parsedB.unit;
+};
+
+const describeItem = (item: BillItem | undefined): string =>
+  item ? `${item.name} × ${item.quantity} — ${item.price}` : '—';
+
+const joinAmounts = (lines: { amount: number | string }[] | undefined): string | undefined =>
+  lines && lines.length > 0 ? lines.map(line => String(line.amount)).join(' + ') : undefined;
+
+const FIELDS: { label: string; get: (bill: BillData) => Value; isAmount?: boolean }[] = [
+  { label: 'Merchant', get: bill => bill.merchantName },
+  { label: 'Address', get: bill => bill.merchantAddress },
+  { label: 'Date', get: bill => bill.transactionDate },
+  { label: 'Time', get: bill => bill.transactionTime },
+  { label: 'Currency', get: bill => bill.currency },
+  { label: 'Payment', get: bill => bill.paymentMethod },
+  { label: 'Subtotal', get: bill => bill.subtotal, isAmount: true },
+  { label: 'Tax', get: bill => joinAmounts(bill.taxes) },
+  { label: 'Discounts', get: bill => joinAmounts(bill.discounts) },
+  { label: 'Tip / Service', get: bill => bill.tip, isAmount: true },
+  { label: 'Total', get: bill => bill.total, isAmount: true },
+];
+
+/**
+ * Lines up a saved bill with a fresh extraction field by field, and line
+ * items by position, marking the rows that differ.
+ */
+export const compareBills = (saved: BillData, rescanned: BillData): BillFieldDiff[] => {
+  const fieldRows = FIELDS.map(({ label, get, isAmount }) => ({
+    label,
+    saved: display(get(saved)),
+    rescanned: display(get(rescanned)),
+    changed: !(isAmount ? isSameAmount : isSameText)(get(saved), get(rescanned)),
+  }));
+
+  const itemCount = Math.max(saved.items.length, rescanned.items.length);
+  const itemRows = Array.from({ length: itemCount }, (_, i) => {
+    const a = saved.items[i];
+    const b = rescanned.items[i];
+    return {
+      label: `Item ${i + 1}`,
+      saved: describeItem(a),
+      rescanned: describeItem(b),
+      changed: !a || !b || !isSameText(a.name, b.name) || !isSameAmount(a.quantity, b.quantity) || !isSameAmount(a.price, b.price),
+    };
+  });
+
+  return [...fieldRows, ...itemRows];
+};
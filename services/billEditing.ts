@@ -0,0 +1,61 @@
+import { BillData, BillItem } from '../types';
+import { parseAmount, formatLike, recalculateTotals } from './billAmounts';
+
+/**
+ * Inserts an empty line item at `index` (or at the end) and returns the new bill.
+ */
+export const insertItem = (bill: BillData, index: number = bill.items.length): BillData => {
+  const items = [...bill.items];
+  items.splice(index, 0, { name: '', quantity: 1, price: '' });
+  return { ...bill, items };
+};
+
+/**
+ * Removes the line item at `index` and recalculates the totals.
+ */
+export const removeItem = (bill: BillData, index: number): BillData =>
+  recalculateTotals(bill, { ...bill, items: bill.items.filter((_, i) => i !== index) });
+
+/**
+ * Moves the line item at `from` to position `to`. Out-of-range moves are ignored.
+ */
+export const moveItem = (bill: BillData, from: number, to: number): BillData => {
+  if (to < 0 || to >= bill.items.length || from === to) return bill;
+  const items = [...bill.items];
+  const [item] = items.splice(from, 1);
+  items.splice(to, 0, item);
+  return { ...bill, items };
+};
+
+/**
+ * Splits a line item in two. A line with a whole quantity above one has a
+ * single unit split off; any other line is halved. The two prices always add
+ * up to the original, so the totals do not change.
+ */
+export const splitItem = (bill: BillData, index: number): BillData => {
+  const item = bill.items[index];
+  if (!item) return bill;
+
+  const quantity = parseAmount(item.quantity);
+  const price = parseAmount(item.price).value;
+  const splitsUnit = quantity.value !== null && Number.isInteger(quantity.value) && quantity.value > 1;
+  const share = splitsUnit ? 1 / quantity.value! : 0.5;
+
+  const splitPrice = price === null ? item.price : formatLike(Math.round(price * share * 100) / 100, item.price);
+  const remainingPrice = price === null ? item.price : formatLike(price - (parseAmount(splitPrice).value ?? 0), item.price);
+
+  const first: BillItem = {
+    ...item,
+    quantity: splitsUnit ? formatLike(quantity.value! - 1, item.quantity, 0) : item.quantity,
+    price: remainingPrice,
+  };
+  const second: BillItem = {
+    ...item,
+    quantity: splitsUnit ? formatLike(1, item.quantity, 0) : item.quantity,
+    price: splitPrice,
+  };
+
+  const items = [...bill.items];
+  items.splice(index, 1, first, second);
+  return { ...bill, items };
+};
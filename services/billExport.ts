@@ -0,0 +1,128 @@
+import * as XLSX from 'xlsx';
+import { ScanHistoryItem } from '../types';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportableScan = Pick<ScanHistoryItem, 'id' | 'billData' | 'timestamp' | 'tags'>;
+
+const LINE_ITEM_HEADERS = ['Scan Date', 'Merchant', 'Transaction Date', 'Currency', 'Item', 'Quantity', 'Price', 'Bill Total'];
+
+const BILL_HEADERS = [
+  'Scan Date', 'Merchant', 'Address', 'Transaction Date', 'Transaction Time', 'Currency', 'Payment Method',
+  'Item Count', 'Subtotal', 'Tax', 'Discounts', 'Tip', 'Total', 'Tags',
+];
+
+/**
+ * Flattens scans into one row per line item. The bill-level fields are
+ * repeated on every row so each row stands on its own in a spreadsheet.
+ */
+const toLineItemRows = (scans: ExportableScan[]): (string | number)[][] =>
+  scans.flatMap(scan => {
+    const { billData } = scan;
+    const prefix = [
+      new Date(scan.timestamp).toLocaleString(),
+      billData.merchantName ?? '',
+      billData.transactionDate ?? '',
+      billData.currency ?? '',
+    ];
+    if (billData.items.length === 0) {
+      return [[...prefix, '', '', '', billData.total]];
+    }
+    return billData.items.map(item => [...prefix, item.name, item.quantity, item.price, billData.total]);
+  });
+
+/**
+ * Joins several amounts into one cell, e.g. two tax lines become "0.55; 0.55".
+ */
+const joinAmounts = (amounts: (string | number)[] | undefined): string =>
+  (amounts ?? []).map(String).join('; ');
+
+const toBillRow = (scan: ExportableScan): (string | number)[] => {
+  const { billData } = scan;
+  return [
+    new Date(scan.timestamp).toLocaleString(),
+    billData.merchantName ?? '',
+    billData.merchantAddress ?? '',
+    billData.transactionDate ?? '',
+    billData.transactionTime ?? '',
+    billData.currency ?? '',
+    billData.paymentMethod ?? '',
+    billData.items.length,
+    billData.subtotal ?? '',
+    joinAmounts(billData.taxes?.map(tax => tax.amount)),
+    joinAmounts(billData.discounts?.map(discount => discount.amount)),
+    billData.tip ?? '',
+    billData.total,
+    (scan.tags ?? []).join('; '),
+  ];
+};
+
+/**
+ * Quotes a CSV field when needed, and neutralises values a spreadsheet would
+ * otherwise evaluate as a formula.
+ */
+const escapeCsvField = (value: string | number): string => {
+  let text = String(value);
+  if (/^[=+@\t\r]/.test(text) || /^-[^\d.]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportToCsv = (scans: ExportableScan[]): Blob => {
+  const lines = [LINE_ITEM_HEADERS, ...toLineItemRows(scans)].map(row => row.map(escapeCsvField).join(','));
+  // The BOM makes Excel open the file as UTF-8.
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+export const exportToJson = (scans: ExportableScan[]): Blob => {
+  const payload = scans.map(scan => ({
+    id: scan.id,
+    scannedAt: new Date(scan.timestamp).toISOString(),
+    tags: scan.tags ?? [],
+    billData: scan.billData,
+  }));
+  return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
+
+/**
+ * Builds a workbook with a "Line Items" sheet and a one-row-per-bill "Bills" sheet.
+ */
+export const exportToXlsx = (scans: ExportableScan[]): Blob => {
+  const workbook = XLSX.utils.book_new();
+
+  const itemsSheet = XLSX.utils.aoa_to_sheet([LINE_ITEM_HEADERS, ...toLineItemRows(scans)]);
+  itemsSheet['!cols'] = [{ wch: 22 }, { wch: 24 }, { wch: 14 }, { wch: 10 }, { wch: 32 }, { wch: 10 }, { wch: 12 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(workbook, itemsSheet, 'Line Items');
+
+  const billsSheet = XLSX.utils.aoa_to_sheet([BILL_HEADERS, ...scans.map(toBillRow)]);
+  billsSheet['!cols'] = [
+    { wch: 22 }, { wch: 24 }, { wch: 32 }, { wch: 14 }, { wch: 12 }, { wch: 10 }, { wch: 16 },
+    { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 24 },
+  ];
+  XLSX.utils.book_append_sheet(workbook, billsSheet, 'Bills');
+
+  const data = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer;
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+const EXPORTERS: Record<ExportFormat, (scans: ExportableScan[]) => Blob> = {
+  csv: exportToCsv,
+  xlsx: exportToXlsx,
+  json: exportToJson,
+};
+
+/**
+ * Exports the given scans in `format` and triggers a browser download.
+ */
+export const downloadScans = (scans: ExportableScan[], format: ExportFormat, baseName: string = 'bill-scans') => {
+  const blob = EXPORTERS[format](scans);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}-${Date.now()}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
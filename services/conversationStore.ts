@@ -0,0 +1,79 @@
+import { ChatMessage, Conversation } from '../types';
+import { CONVERSATIONS_STORE, promisifyRequest, withStore } from './db';
+import { buildLinearTree } from './conversationTree';
+import { createId } from './ids';
+import { DEFAULT_PERSONA_ID, PRO_PERSONA_ID } from './personaStore';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New chat';
+const MAX_TITLE_LENGTH = 40;
+
+/**
+ * Creates a new, empty conversation. It is not persisted until saved.
+ */
+export const createConversation = (personaId: string): Conversation => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    personaId,
+    nodes: {},
+    rootIds: [],
+    activeRootId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Derives a short conversation title from the first user message.
+ */
+export const generateTitle = (text: string): string => {
+  const firstLine = text.trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (!firstLine) return DEFAULT_CONVERSATION_TITLE;
+  if (firstLine.length <= MAX_TITLE_LENGTH) return firstLine;
+
+  const truncated = firstLine.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = truncated.lastIndexOf(' ');
+  return `${lastSpace > MAX_TITLE_LENGTH / 2 ? truncated.slice(0, lastSpace) : truncated}…`;
+};
+
+type TreeFields = 'nodes' | 'rootIds' | 'activeRootId';
+
+/**
+ * A conversation as it may have been saved by an earlier version: a flat
+ * message list before branching, and a fast/pro mode before personas.
+ */
+type StoredConversation = Omit<Conversation, TreeFields | 'personaId'> & Partial<Pick<Conversation, TreeFields | 'personaId'>> & {
+  messages?: ChatMessage[];
+  mode?: 'fast' | 'pro';
+};
+
+const normalizeConversation = ({ messages, mode, ...stored }: StoredConversation): Conversation => ({
+  ...stored,
+  personaId: stored.personaId ?? (mode === 'pro' ? PRO_PERSONA_ID : DEFAULT_PERSONA_ID),
+  nodes: stored.nodes ?? {},
+  rootIds: stored.rootIds ?? [],
+  activeRootId: stored.activeRootId ?? null,
+  ...(messages && buildLinearTree(messages)),
+});
+
+/**
+ * Loads all saved conversations, most recently updated first.
+ */
+export const listConversations = async (): Promise<Conversation[]> => {
+  const conversations = await withStore(CONVERSATIONS_STORE, 'readonly', store =>
+    promisifyRequest(store.getAll() as IDBRequest<StoredConversation[]>)
+  );
+  return conversations.map(normalizeConversation).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Inserts or replaces a conversation.
+ */
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  await withStore(CONVERSATIONS_STORE, 'readwrite', store => promisifyRequest(store.put(conversation)));
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await withStore(CONVERSATIONS_STORE, 'readwrite', store => promisifyRequest(store.delete(id)));
+};
@@ -0,0 +1,117 @@
+import { ChatMessage, ChatNode, Conversation } from '../types';
+import { createId } from './ids';
+
+/**
+ * Returns the nodes on the active branch, from the first message to the leaf.
+ */
+export const getActivePath = (conversation: Conversation): ChatNode[] => {
+  const path: ChatNode[] = [];
+  let nodeId = conversation.activeRootId;
+  while (nodeId) {
+    const node = conversation.nodes[nodeId];
+    if (!node) break;
+    path.push(node);
+    nodeId = node.activeChildId;
+  }
+  return path;
+};
+
+/**
+ * Returns the messages on the active branch up to and including `nodeId`.
+ * This is the history sent to the model.
+ */
+export const getHistoryUpTo = (conversation: Conversation, nodeId: string): ChatMessage[] => {
+  const path = getActivePath(conversation);
+  const index = path.findIndex(node => node.id === nodeId);
+  return path.slice(0, index + 1).map(node => node.message);
+};
+
+/**
+ * Returns `nodeId` and its alternatives (nodes sharing the same parent), in creation order.
+ */
+export const getSiblingIds = (conversation: Conversation, nodeId: string): string[] => {
+  const parentId = conversation.nodes[nodeId]?.parentId;
+  return parentId ? conversation.nodes[parentId].childIds : conversation.rootIds;
+};
+
+/**
+ * Makes `nodeId` the active child of its parent, switching the visible branch.
+ */
+export const setActiveNode = (conversation: Conversation, nodeId: string): Conversation => {
+  const node = conversation.nodes[nodeId];
+  if (!node) return conversation;
+  if (!node.parentId) {
+    return { ...conversation, activeRootId: nodeId };
+  }
+  const parent = conversation.nodes[node.parentId];
+  return {
+    ...conversation,
+    nodes: { ...conversation.nodes, [parent.id]: { ...parent, activeChildId: nodeId } },
+  };
+};
+
+/**
+ * Adds a message as a new child of `parentId` (or as a new top-level message)
+ * and makes it active.
+ */
+export const addNode = (
+  conversation: Conversation,
+  parentId: string | null,
+  message: ChatMessage
+): { conversation: Conversation; nodeId: string } => {
+  const node: ChatNode = { id: createId(), parentId, message, childIds: [], activeChildId: null };
+  const nodes = { ...conversation.nodes, [node.id]: node };
+
+  if (!parentId) {
+    return {
+      conversation: { ...conversation, nodes, rootIds: [...conversation.rootIds, node.id], activeRootId: node.id },
+      nodeId: node.id,
+    };
+  }
+  const parent = nodes[parentId];
+  nodes[parentId] = { ...parent, childIds: [...parent.childIds, node.id], activeChildId: node.id };
+  return { conversation: { ...conversation, nodes }, nodeId: node.id };
+};
+
+export const updateNodeMessage = (conversation: Conversation, nodeId: string, message: ChatMessage): Conversation => {
+  const node = conversation.nodes[nodeId];
+  if (!node) return conversation;
+  return { ...conversation, nodes: { ...conversation.nodes, [nodeId]: { ...node, message } } };
+};
+
+/**
+ * Removes a leaf node. Its parent's active branch falls back to `fallbackActiveId`
+ * when given, otherwise to the most recent remaining sibling.
+ */
+export const removeLeafNode = (conversation: Conversation, nodeId: string, fallbackActiveId?: string | null): Conversation => {
+  const node = conversation.nodes[nodeId];
+  if (!node || node.childIds.length > 0) return conversation;
+
+  const nodes = { ...conversation.nodes };
+  delete nodes[nodeId];
+  const pickActive = (remaining: string[]) =>
+    fallbackActiveId && remaining.includes(fallbackActiveId) ? fallbackActiveId : remaining[remaining.length - 1] ?? null;
+
+  if (!node.parentId) {
+    const rootIds = conversation.rootIds.filter(id => id !== nodeId);
+    return { ...conversation, nodes, rootIds, activeRootId: pickActive(rootIds) };
+  }
+  const parent = nodes[node.parentId];
+  const childIds = parent.childIds.filter(id => id !== nodeId);
+  nodes[parent.id] = { ...parent, childIds, activeChildId: pickActive(childIds) };
+  return { ...conversation, nodes };
+};
+
+/**
+ * Builds a single-branch tree from a flat message list.
+ */
+export const buildLinearTree = (messages: ChatMessage[]): Pick<Conversation, 'nodes' | 'rootIds' | 'activeRootId'> => {
+  let tree: Conversation = { id: '', title: '', personaId: '', nodes: {}, rootIds: [], activeRootId: null, createdAt: 0, updatedAt: 0 };
+  let parentId: string | null = null;
+  for (const message of messages) {
+    const result = addNode(tree, parentId, message);
+    tree = result.conversation;
+    parentId = result.nodeId;
+  }
+  return { nodes: tree.nodes, rootIds: tree.rootIds, activeRootId: tree.activeRootId };
+};
@@ -0,0 +1,117 @@
+const DB_NAME = 'gemini-multi-tool';
+const DB_VERSION = 4;
+
+export const CONVERSATIONS_STORE = 'conversations';
+export const PERSONAS_STORE = 'personas';
+export const SCAN_HISTORY_STORE = 'scanHistory';
+export const TEMPLATES_STORE = 'templates';
+export const TIMESTAMP_INDEX = 'timestamp';
+
+type StoreName = typeof CONVERSATIONS_STORE | typeof PERSONAS_STORE | typeof SCAN_HISTORY_STORE | typeof TEMPLATES_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+let upgradeBlocked = false;
+const blockedListeners = new Set<(blocked: boolean) => void>();
+
+const setUpgradeBlocked = (blocked: boolean) => {
+  if (blocked === upgradeBlocked) return;
+  upgradeBlocked = blocked;
+  blockedListeners.forEach(listener => listener(blocked));
+};
+
+/**
+ * Calls `listener` whenever an upgrade starts or stops waiting for other tabs
+ * of the app to close, and once right away with the current state.
+ * Returns a function that unsubscribes.
+ */
+export const subscribeToBlockedUpgrade = (listener: (blocked: boolean) => void): (() => void) => {
+  blockedListeners.add(listener);
+  listener(upgradeBlocked);
+  return () => { blockedListeners.delete(listener); };
+};
+
+/**
+ * Opens (and on first use, creates or upgrades) the app's IndexedDB database.
+ * The connection is shared for the lifetime of the page.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(PERSONAS_STORE)) {
+        db.createObjectStore(PERSONAS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SCAN_HISTORY_STORE)) {
+        const scans = db.createObjectStore(SCAN_HISTORY_STORE, { keyPath: 'id' });
+        scans.createIndex(TIMESTAMP_INDEX, 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+        db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => {
+      setUpgradeBlocked(false);
+      const db = request.result;
+      // Let a newer version of the app in another tab upgrade the database;
+      // this tab reopens it on its next access.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      setUpgradeBlocked(false);
+      reject(request.error);
+    };
+    // Not a failure: the open stays pending and succeeds once the other tabs close.
+    request.onblocked = () => setUpgradeBlocked(true);
+  });
+  // Allow a retry after a failed open instead of caching the rejection forever.
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `callback` against an object store inside a transaction and resolves
+ * with its result once the transaction has committed.
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  // Wait on both at once so an aborted transaction never leaves `done` rejecting unobserved.
+  const [result] = await Promise.all([
+    Promise.resolve().then(() => callback(transaction.objectStore(storeName))),
+    done,
+  ]);
+  return result;
+};
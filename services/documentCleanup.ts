@@ -0,0 +1,391 @@
+/**
+ * Local clean-up for photographed documents: finding the page outline,
+ * perspective correction, deskewing and "scan" style filters. Everything runs
+ * on canvases in the browser, before the image is sent for analysis.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Document corners as fractions (0–1) of the image: top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point];
+
+/** `threshold` turns the page into black and white, like a flatbed scan. */
+export type DocumentFilter = 'none' | 'grayscale' | 'threshold';
+
+export interface DocumentAdjustments {
+  /** Degrees clockwise, in 90° steps. */
+  rotation: number;
+  brightness: number;
+  /** The page outline to crop and flatten, or null to keep the whole image. */
+  corners: Quad | null;
+  deskew: boolean;
+  filter: DocumentFilter;
+}
+
+export const DEFAULT_ADJUSTMENTS: DocumentAdjustments = {
+  rotation: 0,
+  brightness: 1,
+  corners: null,
+  deskew: false,
+  filter: 'none',
+};
+
+/** Longest side of the copy used to find the page outline. */
+const DETECTION_SIZE = 256;
+/** Below this share of the image, a detected page is more likely noise. */
+const MIN_PAGE_AREA = 0.2;
+/** Longest side of the copy used to measure skew. */
+const SKEW_SAMPLE_SIZE = 600;
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.25;
+/** Bradley–Roth threshold: a pixel is ink when this much darker than its neighbourhood. */
+const THRESHOLD_SENSITIVITY = 0.15;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Failed to load image."));
+  img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  return { canvas, ctx };
+};
+
+/** Draws `source` scaled so its longest side is at most `maxSize`. */
+const drawScaled = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  return { data: ctx.getImageData(0, 0, width, height).data, width, height };
+};
+
+const toGray = (data: Uint8ClampedArray): Float32Array => {
+  const gray = new Float32Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Otsu's method: the gray level that best separates the histogram into two classes. */
+const otsuThreshold = (gray: Float32Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of gray) histogram[Math.min(255, Math.round(value))]++;
+
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let best = 0;
+  let bestVariance = -1;
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+    backgroundSum += level * histogram[level];
+    const meanBackground = backgroundSum / backgroundCount;
+    const meanForeground = (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = level;
+    }
+  }
+  return best;
+};
+
+/** Returns the pixel indices of the largest 4-connected region of `mask`. */
+const largestRegion = (mask: Uint8Array, width: number, height: number): number[] => {
+  const visited = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  let largest: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+    const region: number[] = [];
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    while (top > 0) {
+      const index = stack[--top];
+      region.push(index);
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index >= width ? index - width : -1,
+        index < width * (height - 1) ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !visited[next]) {
+          visited[next] = 1;
+          stack[top++] = next;
+        }
+      }
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  return largest;
+};
+
+/**
+ * Finds the outline of a document photographed on a darker background. The
+ * page is taken to be the largest bright region, and its corners are the
+ * region's extreme points along the two diagonals. Returns null when no
+ * page-sized region stands out. Cheap enough to run on live video frames.
+ */
+export const findDocumentCorners = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): Quad | null => {
+  const { data, width, height } = drawScaled(source, sourceWidth, sourceHeight, DETECTION_SIZE);
+  const gray = toGray(data);
+  const threshold = otsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) mask[i] = gray[i] > threshold ? 1 : 0;
+
+  const region = largestRegion(mask, width, height);
+  if (region.length < MIN_PAGE_AREA * width * height) return null;
+
+  let topLeft = region[0], topRight = region[0], bottomRight = region[0], bottomLeft = region[0];
+  const score = (index: number, sx: number, sy: number) => sx * (index % width) + sy * Math.floor(index / width);
+  for (const index of region) {
+    if (score(index, 1, 1) < score(topLeft, 1, 1)) topLeft = index;
+    if (score(index, 1, 1) > score(bottomRight, 1, 1)) bottomRight = index;
+    if (score(index, 1, -1) > score(topRight, 1, -1)) topRight = index;
+    if (score(index, 1, -1) < score(bottomLeft, 1, -1)) bottomLeft = index;
+  }
+  const toPoint = (index: number): Point => ({
+    x: ((index % width) + 0.5) / width,
+    y: (Math.floor(index / width) + 0.5) / height,
+  });
+  return [toPoint(topLeft), toPoint(topRight), toPoint(bottomRight), toPoint(bottomLeft)];
+};
+
+/** Finds the document outline in an image given as a URL. See `findDocumentCorners`. */
+export const detectDocumentCorners = async (src: string): Promise<Quad | null> => {
+  const img = await loadImage(src);
+  return findDocumentCorners(img, img.naturalWidth, img.naturalHeight);
+};
+
+/** The largest distance any corner moved between two outlines, as a fraction of the image. */
+export const cornerMovement = (a: Quad, b: Quad): number =>
+  Math.max(...a.map((point, i) => distance(point, b[i])));
+
+/** A slightly inset outline, as a starting point for placing the corners by hand. */
+export const defaultCorners = (): Quad => [
+  { x: 0.05, y: 0.05 }, { x: 0.95, y: 0.05 }, { x: 0.95, y: 0.95 }, { x: 0.05, y: 0.95 },
+];
+
+/**
+ * Maps the unit square onto `quad` (Heckbert's square-to-quad projection),
+ * returning a function from (u, v) to source coordinates.
+ */
+const squareToQuad = ([p0, p1, p2, p3]: Quad) => {
+  const sx = p0.x - p1.x + p2.x - p3.x;
+  const sy = p0.y - p1.y + p2.y - p3.y;
+  let a: number, b: number, d: number, e: number, g = 0, h = 0;
+  if (Math.abs(sx) < 1e-9 && Math.abs(sy) < 1e-9) {
+    a = p1.x - p0.x; b = p3.x - p0.x;
+    d = p1.y - p0.y; e = p3.y - p0.y;
+  } else {
+    const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dy1 = p1.y - p2.y, dy2 = p3.y - p2.y;
+    const den = dx1 * dy2 - dx2 * dy1;
+    g = (sx * dy2 - dx2 * sy) / den;
+    h = (dx1 * sy - sx * dy1) / den;
+    a = p1.x - p0.x + g * p1.x; b = p3.x - p0.x + h * p3.x;
+    d = p1.y - p0.y + g * p1.y; e = p3.y - p0.y + h * p3.y;
+  }
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w };
+  };
+};
+
+/**
+ * Crops the page outlined by `corners` (fractions of the image) and flattens
+ * it to a rectangle, sampling the source bilinearly.
+ */
+export const warpPerspective = (source: HTMLCanvasElement, corners: Quad): HTMLCanvasElement => {
+  const quad = corners.map(p => ({ x: p.x * source.width, y: p.y * source.height })) as Quad;
+  const [tl, tr, br, bl] = quad;
+  const width = Math.max(1, Math.round(Math.max(distance(tl, tr), distance(bl, br))));
+  const height = Math.max(1, Math.round(Math.max(distance(tl, bl), distance(tr, br))));
+
+  const src = source.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, source.width, source.height).data;
+  const { canvas, ctx } = createCanvas(width, height);
+  const output = ctx.createImageData(width, height);
+  const out = output.data;
+  const map = squareToQuad(quad);
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = map((x + 0.5) / width, (y + 0.5) / height);
+      const px = Math.min(maxX, Math.max(0, p.x - 0.5));
+      const py = Math.min(maxY, Math.max(0, p.y - 0.5));
+      const x0 = Math.floor(px), y0 = Math.floor(py);
+      const x1 = Math.min(maxX, x0 + 1), y1 = Math.min(maxY, y0 + 1);
+      const fx = px - x0, fy = py - y0;
+      const i00 = (y0 * source.width + x0) * 4, i10 = (y0 * source.width + x1) * 4;
+      const i01 = (y1 * source.width + x0) * 4, i11 = (y1 * source.width + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        out[o + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+  return canvas;
+};
+
+/**
+ * Measures how far text lines are tilted, by finding the rotation that makes
+ * the row profile of dark pixels sharpest. Returns the clockwise rotation in
+ * degrees that straightens the page, or 0 when there is too little text.
+ */
+export const estimateSkewCorrection = (source: HTMLCanvasElement): number => {
+  const { data, width, height } = drawScaled(source, source.width, source.height, SKEW_SAMPLE_SIZE);
+  const gray = toGray(data);
+  const threshold = otsuThreshold(gray);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < gray.length; i++) {
+    if (gray[i] < threshold) {
+      xs.push(i % width - width / 2);
+      ys.push(Math.floor(i / width) - height / 2);
+    }
+  }
+  if (xs.length < 50) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const profile = new Float64Array(diagonal * 2 + 1);
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const rad = angle * Math.PI / 180;
+    const sin = Math.sin(rad), cos = Math.cos(rad);
+    profile.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      profile[Math.round(xs[i] * sin + ys[i] * cos) + diagonal]++;
+    }
+    let score = 0;
+    for (const count of profile) score += count * count;
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+};
+
+/**
+ * Rotates `source` clockwise by `degrees` onto a canvas just large enough to
+ * hold it. `background` fills the uncovered corners of a non-right angle.
+ */
+export const rotateCanvas = (source: HTMLCanvasElement, degrees: number, background?: string, filter?: string): HTMLCanvasElement => {
+  const rad = degrees * Math.PI / 180;
+  const w = source.width;
+  const h = source.height;
+  const { canvas, ctx } = createCanvas(
+    Math.round(Math.abs(w * Math.cos(rad)) + Math.abs(h * Math.sin(rad))),
+    Math.round(Math.abs(h * Math.cos(rad)) + Math.abs(w * Math.sin(rad))),
+  );
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  if (filter) ctx.filter = filter;
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(rad);
+  ctx.drawImage(source, -w / 2, -h / 2);
+  return canvas;
+};
+
+/**
+ * Converts the canvas in place to grayscale, or to black and white with a
+ * Bradley–Roth adaptive threshold, which copes with uneven lighting.
+ */
+export const applyDocumentFilter = (canvas: HTMLCanvasElement, filter: DocumentFilter) => {
+  if (filter === 'none') return;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const { width, height } = canvas;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+  const gray = toGray(data);
+  let output = gray;
+
+  if (filter === 'threshold') {
+    // Summed-area table, so each neighbourhood mean costs four lookups.
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += gray[y * width + x];
+        integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+      }
+    }
+    const half = Math.max(4, Math.round(Math.max(width, height) / 32));
+    output = new Float32Array(gray.length);
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.max(0, y - half), y1 = Math.min(height, y + half + 1);
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.max(0, x - half), x1 = Math.min(width, x + half + 1);
+        const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+          - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+        const mean = sum / ((x1 - x0) * (y1 - y0));
+        output[y * width + x] = gray[y * width + x] < mean * (1 - THRESHOLD_SENSITIVITY) ? 0 : 255;
+      }
+    }
+  }
+
+  for (let i = 0; i < output.length; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = output[i];
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Approximates the adjustments with CSS filters, for a live preview while
+ * editing. Perspective and deskew are only applied by `renderAdjustedImage`.
+ */
+export const toCssFilter = (adjustments: DocumentAdjustments): string => {
+  const filters = [`brightness(${adjustments.brightness})`];
+  if (adjustments.filter === 'grayscale') filters.push('grayscale(1)');
+  if (adjustments.filter === 'threshold') filters.push('grayscale(1)', 'contrast(3)');
+  return filters.join(' ');
+};
+
+/**
+ * Runs the full clean-up on an image and returns the result as a JPEG data
+ * URL: perspective crop, deskew, rotation and brightness, then the filter.
+ */
+export const renderAdjustedImage = async (src: string, adjustments: DocumentAdjustments): Promise<string> => {
+  const img = await loadImage(src);
+  let { canvas } = createCanvas(img.naturalWidth, img.naturalHeight);
+  canvas.getContext('2d')!.drawImage(img, 0, 0);
+
+  if (adjustments.corners) canvas = warpPerspective(canvas, adjustments.corners);
+  if (adjustments.deskew) {
+    const correction = estimateSkewCorrection(canvas);
+    if (correction !== 0) canvas = rotateCanvas(canvas, correction, '#FFFFFF');
+  }
+  canvas = rotateCanvas(canvas, adjustments.rotation, undefined, `brightness(${adjustments.brightness})`);
+  applyDocumentFilter(canvas, adjustments.filter);
+
+  return canvas.toDataURL('image/jpeg');
+};
@@ -0,0 +1,53 @@
+/** The most undo steps kept; older ones are dropped. */
+const MAX_UNDO_STEPS = 100;
+/** Edits to the same field within this window are merged into one undo step. */
+const COALESCE_WINDOW_MS = 1000;
+
+/**
+ * An undo/redo stack around an immutable value.
+ */
+export interface EditHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  /** The key and time of the last edit, so typing in one field undoes as a single step. */
+  lastEdit?: { key: string; time: number };
+}
+
+export const createEditHistory = <T>(present: T): EditHistory<T> => ({ past: [], present, future: [] });
+
+/**
+ * Records `next` as the new present value and clears the redo stack. Passing
+ * the same `coalesceKey` as the previous edit, shortly after it, replaces that
+ * step instead of adding a new one.
+ */
+export const applyEdit = <T>(history: EditHistory<T>, next: T, coalesceKey?: string, now: number = Date.now()): EditHistory<T> => {
+  if (next === history.present) return history;
+  const merge = !!coalesceKey
+    && history.lastEdit?.key === coalesceKey
+    && now - history.lastEdit.time < COALESCE_WINDOW_MS;
+  return {
+    past: merge ? history.past : [...history.past, history.present].slice(-MAX_UNDO_STEPS),
+    present: next,
+    future: [],
+    lastEdit: coalesceKey ? { key: coalesceKey, time: now } : undefined,
+  };
+};
+
+export const undo = <T>(history: EditHistory<T>): EditHistory<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redo = <T>(history: EditHistory<T>): EditHistory<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
@@ -0,0 +1,2 @@
+/** A unique, roughly time-ordered id for stored records. */
+export const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,116 @@
+/**
+ * Shrinks images before they are sent to the API: downscales to a maximum
+ * dimension and re-encodes, which also drops EXIF metadata. Every tool that
+ * uploads images goes through `preprocessImage`.
+ */
+
+const PREPROCESS_OPTIONS_KEY = 'imagePreprocessOptions';
+
+export type ImageOutputFormat = 'image/webp' | 'image/jpeg';
+
+export interface PreprocessOptions {
+  /** Longest side in pixels; larger images are scaled down to it. */
+  maxDimension: number;
+  format: ImageOutputFormat;
+  /** Encoder quality from 0 to 1. */
+  quality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 2048,
+  format: 'image/jpeg',
+  quality: 0.85,
+};
+
+export const MAX_DIMENSION_CHOICES = [1024, 1600, 2048, 3072, 4096];
+
+/** The request size of an upload before and after preprocessing. */
+export interface PayloadSize {
+  originalBytes: number;
+  bytes: number;
+}
+
+export interface PreprocessedImage extends PayloadSize {
+  /** Base64 data, without the data URL prefix. */
+  base64: string;
+  mimeType: string;
+  dataUrl: string;
+}
+
+export const loadPreprocessOptions = (): PreprocessOptions => {
+  try {
+    const saved = localStorage.getItem(PREPROCESS_OPTIONS_KEY);
+    return saved ? { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(saved) } : DEFAULT_PREPROCESS_OPTIONS;
+  } catch (e) {
+    console.error("Failed to load image preprocessing options", e);
+    return DEFAULT_PREPROCESS_OPTIONS;
+  }
+};
+
+export const savePreprocessOptions = (options: PreprocessOptions) => {
+  localStorage.setItem(PREPROCESS_OPTIONS_KEY, JSON.stringify(options));
+};
+
+/** Decoded size of base64 data, in bytes. */
+const base64Bytes = (base64: string): number =>
+  Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+const toDataUrl = (mimeType: string, base64: string) => `data:${mimeType};base64,${base64}`;
+
+const splitDataUrl = (dataUrl: string) => ({
+  mimeType: dataUrl.substring(5, dataUrl.indexOf(';')),
+  base64: dataUrl.split(',')[1],
+});
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Resizes and re-encodes an image given as a Blob or data URL. EXIF
+ * orientation is applied to the pixels first, so dropping the metadata does
+ * not turn the photo sideways. Anything that is not an image, e.g. a PDF, is
+ * returned unchanged.
+ */
+export const preprocessImage = async (
+  source: Blob | string,
+  options: PreprocessOptions = loadPreprocessOptions()
+): Promise<PreprocessedImage> => {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+
+  if (!blob.type.startsWith('image/')) {
+    const dataUrl = typeof source === 'string' ? source : await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    const { mimeType, base64 } = splitDataUrl(dataUrl);
+    return { base64, mimeType, dataUrl, originalBytes: blob.size, bytes: base64Bytes(base64) };
+  }
+
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  if (options.format === 'image/jpeg') {
+    // JPEG has no alpha; transparent areas would otherwise turn black.
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  let dataUrl = canvas.toDataURL(options.format, options.quality);
+  // Browsers that cannot encode WebP silently return a PNG instead.
+  if (!dataUrl.startsWith(`data:${options.format}`)) {
+    dataUrl = canvas.toDataURL('image/jpeg', options.quality);
+  }
+  const { mimeType, base64 } = splitDataUrl(dataUrl);
+  return { base64, mimeType, dataUrl: toDataUrl(mimeType, base64), originalBytes: blob.size, bytes: base64Bytes(base64) };
+};
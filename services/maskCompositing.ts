@@ -0,0 +1,89 @@
+/**
+ * Helpers for mask-based inpainting. The mask is a canvas the size of the
+ * source image where painted pixels (any alpha) mark the area to change.
+ */
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("The image could not be loaded."));
+  img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  return { canvas, ctx };
+};
+
+/**
+ * Whether anything is painted on the mask. Every pixel is checked, so even a
+ * thin stroke on a large photo counts.
+ */
+export const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+  if (!mask.width || !mask.height) return true;
+  const ctx = mask.getContext('2d');
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+/**
+ * Renders the mask as a black and white PNG the size of the image at
+ * `imageSrc`: white where the model may change the image, black elsewhere.
+ * Returns base64 data without the data URL prefix.
+ */
+export const renderMaskImage = async (mask: HTMLCanvasElement, imageSrc: string): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(mask, 0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/**
+ * Lays the edited image over the original through the mask and returns a
+ * PNG data URL at the original size. Pixels outside the mask are copied from
+ * the original unchanged; brush edges inside it blend by their alpha.
+ */
+export const compositeMasked = async (originalSrc: string, editedSrc: string, mask: HTMLCanvasElement): Promise<string> => {
+  const [original, edited] = await Promise.all([loadImage(originalSrc), loadImage(editedSrc)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0);
+  const output = ctx.getImageData(0, 0, width, height);
+
+  // The model may answer at another resolution; stretch it onto the original.
+  const editedLayer = createCanvas(width, height);
+  editedLayer.ctx.drawImage(edited, 0, 0, width, height);
+  const editedPixels = editedLayer.ctx.getImageData(0, 0, width, height).data;
+
+  const maskLayer = createCanvas(width, height);
+  maskLayer.ctx.drawImage(mask, 0, 0, width, height);
+  const maskPixels = maskLayer.ctx.getImageData(0, 0, width, height).data;
+
+  const pixels = output.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = maskPixels[i + 3];
+    if (alpha === 0) continue;
+    const a = alpha / 255;
+    pixels[i] = Math.round(pixels[i] * (1 - a) + editedPixels[i] * a);
+    pixels[i + 1] = Math.round(pixels[i + 1] * (1 - a) + editedPixels[i + 1] * a);
+    pixels[i + 2] = Math.round(pixels[i + 2] * (1 - a) + editedPixels[i + 2] * a);
+  }
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,110 @@
+import { BoundingBox, OcrBlock } from '../types';
+
+export type OcrExportFormat = 'markdown' | 'hocr';
+
+/** Pixel size of the image the boxes refer to; hOCR needs absolute coordinates. */
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/** The plain text of a block, with table cells separated by tabs. */
+export const blockText = (block: OcrBlock): string => block.type === 'table'
+  ? block.rows.map(row => row.join('\t')).join('\n')
+  : block.lines.map(line => line.text).join('\n');
+
+const escapeTableCell = (cell: string): string => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+/** Renders a table as GFM, padding short rows so every row has the same number of cells. */
+const toMarkdownTable = (rows: string[][]): string => {
+  if (rows.length === 0) return '';
+  const columns = Math.max(...rows.map(row => row.length));
+  const toRow = (row: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => escapeTableCell(row[i] ?? '')).join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [toRow(header), `|${' --- |'.repeat(columns)}`, ...body.map(toRow)].join('\n');
+};
+
+/**
+ * Converts OCR blocks to Markdown. Headings become `##` headings, paragraph
+ * line breaks are kept, and tables become GFM tables.
+ */
+export const toMarkdown = (blocks: OcrBlock[]): string => blocks
+  .map(block => {
+    if (block.type === 'table') return toMarkdownTable(block.rows);
+    if (block.type === 'heading') return `## ${block.lines.map(line => line.text).join(' ')}`;
+    return block.lines.map(line => line.text).join('  \n');
+  })
+  .filter(Boolean)
+  .join('\n\n');
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const bboxTitle = (box: BoundingBox | undefined, size: ImageSize): string => {
+  if (!box) return '';
+  const x0 = Math.round(box.x * size.width);
+  const y0 = Math.round(box.y * size.height);
+  const x1 = Math.round((box.x + box.width) * size.width);
+  const y1 = Math.round((box.y + box.height) * size.height);
+  return ` title="bbox ${x0} ${y0} ${x1} ${y1}"`;
+};
+
+/**
+ * Converts OCR blocks to an hOCR document. Each block is an `ocr_carea`
+ * with its lines, or an `ocr_table` with its cells.
+ */
+export const toHocr = (blocks: OcrBlock[], size: ImageSize): string => {
+  const body = blocks.map((block, i) => {
+    if (block.type === 'table') {
+      const rows = block.rows
+        .map(row => `      <tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+        .join('\n');
+      return `    <table class="ocr_table" id="block_${i + 1}"${bboxTitle(block.box, size)}>\n${rows}\n    </table>`;
+    }
+    const lines = block.lines
+      .map((line, j) => `        <span class="ocr_line" id="line_${i + 1}_${j + 1}"${bboxTitle(line.box, size)}>${escapeHtml(line.text)}</span>`)
+      .join('\n');
+    return [
+      `    <div class="ocr_carea" id="block_${i + 1}"${bboxTitle(block.box, size)}>`,
+      `      <p class="ocr_par">`,
+      lines,
+      `      </p>`,
+      `    </div>`,
+    ].join('\n');
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html xmlns="http://www.w3.org/1999/xhtml">',
+    '<head>',
+    '  <meta charset="utf-8" />',
+    '  <meta name="ocr-system" content="Gemini Multi-Tool" />',
+    '  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocr_table" />',
+    '  <title>OCR result</title>',
+    '</head>',
+    '<body>',
+    `  <div class="ocr_page" id="page_1" title="bbox 0 0 ${size.width} ${size.height}">`,
+    ...body,
+    '  </div>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+};
+
+/**
+ * Exports the blocks in `format` and triggers a browser download.
+ */
+export const downloadOcr = (blocks: OcrBlock[], format: OcrExportFormat, size: ImageSize, baseName: string = 'ocr') => {
+  const blob = format === 'markdown'
+    ? new Blob([toMarkdown(blocks)], { type: 'text/markdown;charset=utf-8' })
+    : new Blob([toHocr(blocks, size)], { type: 'text/html;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}-${Date.now()}.${format === 'markdown' ? 'md' : 'hocr'}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
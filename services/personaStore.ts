@@ -0,0 +1,63 @@
+import { ChatSettings, Persona } from '../types';
+import { PERSONAS_STORE, promisifyRequest, withStore } from './db';
+import { createId } from './ids';
+
+export const DEFAULT_PERSONA_ID = 'builtin-fast';
+export const PRO_PERSONA_ID = 'builtin-pro';
+
+/**
+ * Personas that always exist. They reproduce the original Fast and Pro chat modes.
+ */
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: 'Fast',
+    builtIn: true,
+    model: 'gemini-flash-lite-latest',
+  },
+  {
+    id: PRO_PERSONA_ID,
+    name: 'Pro',
+    builtIn: true,
+    model: 'gemini-2.5-pro',
+    thinkingBudget: 32768,
+  },
+];
+
+export const createPersona = (): Persona => ({
+  id: createId(),
+  name: 'New persona',
+  model: 'gemini-2.5-flash',
+  systemInstruction: '',
+});
+
+/**
+ * Loads the built-in personas followed by the user's saved ones.
+ */
+export const listPersonas = async (): Promise<Persona[]> => {
+  const saved = await withStore(PERSONAS_STORE, 'readonly', store =>
+    promisifyRequest(store.getAll() as IDBRequest<Persona[]>)
+  );
+  return [...BUILT_IN_PERSONAS, ...saved.sort((a, b) => a.name.localeCompare(b.name))];
+};
+
+/**
+ * Finds a persona by id, falling back to the default when it no longer exists.
+ */
+export const resolvePersona = (personas: Persona[], id: string | undefined): Persona =>
+  personas.find(p => p.id === id) ?? BUILT_IN_PERSONAS[0];
+
+/**
+ * Extracts the request settings from a persona, dropping its identity fields.
+ */
+export const getChatSettings = ({ model, systemInstruction, temperature, topP, maxOutputTokens, thinkingBudget }: Persona): ChatSettings =>
+  ({ model, systemInstruction, temperature, topP, maxOutputTokens, thinkingBudget });
+
+export const savePersona = async (persona: Persona): Promise<void> => {
+  if (persona.builtIn) throw new Error("Built-in personas cannot be modified.");
+  await withStore(PERSONAS_STORE, 'readwrite', store => promisifyRequest(store.put(persona)));
+};
+
+export const deletePersona = async (id: string): Promise<void> => {
+  await withStore(PERSONAS_STORE, 'readwrite', store => promisifyRequest(store.delete(id)));
+};
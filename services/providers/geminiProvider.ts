@@ -0,0 +1,665 @@
+import { GoogleGenAI, Modality, Type, GenerateContentConfig, Chat, Part, Schema } from "@google/genai";
+import {
+  ChatMessage, ChatSettings, AspectRatio, BillData, BillItem, ScanModel, OcrBlock, BoundingBox,
+  ExtractionTemplate, TemplateColumn, TemplateField, TemplateResult,
+} from '../../types';
+import { AIProvider, ChatRequestOptions } from './types';
+
+// Upper bound on live chat sessions kept in memory at once.
+const MAX_CHAT_SESSIONS = 8;
+
+interface ChatSession {
+  chat: Chat;
+  config: GenerateContentConfig;
+  /** Serialized settings the session was created with; a change forces a new session. */
+  settingsKey: string;
+  /** The messages the SDK chat object currently holds as history. */
+  syncedMessages: ChatMessage[];
+}
+
+const isSameAttachments = (a: ChatMessage['attachments'] = [], b: ChatMessage['attachments'] = []) =>
+  a.length === b.length && a.every((att, i) => att.mimeType === b[i].mimeType && att.data === b[i].data);
+
+const isSameHistory = (a: ChatMessage[], b: ChatMessage[]) =>
+  a.length === b.length && a.every((m, i) =>
+    m.role === b[i].role && m.text === b[i].text && isSameAttachments(m.attachments, b[i].attachments));
+
+/**
+ * Maps chat settings to the SDK's generation config, leaving unset values to the model defaults.
+ */
+const toGenerateContentConfig = (settings: ChatSettings): GenerateContentConfig => {
+  const config: GenerateContentConfig = {};
+  if (settings.systemInstruction?.trim()) config.systemInstruction = settings.systemInstruction;
+  if (settings.temperature !== undefined) config.temperature = settings.temperature;
+  if (settings.topP !== undefined) config.topP = settings.topP;
+  if (settings.maxOutputTokens !== undefined) config.maxOutputTokens = settings.maxOutputTokens;
+  if (settings.thinkingBudget !== undefined) config.thinkingConfig = { thinkingBudget: settings.thinkingBudget };
+  return config;
+};
+
+/**
+ * Converts a chat message to content parts: attachments as inline data, followed by the text.
+ */
+const toParts = (message: ChatMessage): Part[] => {
+  const parts: Part[] = (message.attachments ?? []).map(att => ({
+    inlineData: { data: att.data, mimeType: att.mimeType },
+  }));
+  if (message.text || parts.length === 0) {
+    parts.push({ text: message.text });
+  }
+  return parts;
+};
+
+/** Schema for a box in Gemini's native [ymin, xmin, ymax, xmax] form, scaled to 0–1000. */
+const BOX_2D_SCHEMA = {
+  type: Type.ARRAY,
+  description: "Bounding box as [ymin, xmin, ymax, xmax], normalized to 0-1000.",
+  items: { type: Type.INTEGER },
+};
+
+/**
+ * Converts a Gemini box to fractions of the image size. Malformed boxes are
+ * dropped rather than drawn in the wrong place.
+ */
+const toBoundingBox = (box2d: number[] | undefined): BoundingBox | undefined => {
+  if (!box2d || box2d.length !== 4 || box2d.some(n => typeof n !== 'number')) return undefined;
+  const [ymin, xmin, ymax, xmax] = box2d.map(n => Math.min(1000, Math.max(0, n)) / 1000);
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+interface RawBillData extends Omit<BillData, 'items' | 'totalBox'> {
+  items: (Omit<BillItem, 'box'> & { box_2d?: number[] })[];
+  total_box_2d?: number[];
+}
+
+/** Moves the raw boxes of a bill onto its items and total, dropping any that are malformed. */
+const toBillData = ({ items, total_box_2d, ...bill }: RawBillData): BillData => {
+  const totalBox = toBoundingBox(total_box_2d);
+  return {
+    ...bill,
+    items: items.map(({ box_2d, ...item }) => {
+      const box = toBoundingBox(box_2d);
+      return box ? { ...item, box } : item;
+    }),
+    ...(totalBox ? { totalBox } : {}),
+  };
+};
+
+interface RawOcrBlock {
+  type: OcrBlock['type'];
+  box_2d?: number[];
+  lines?: { text: string; box_2d?: number[] }[];
+  rows?: { cells: string[] }[];
+}
+
+const toOcrBlock = (raw: RawOcrBlock): OcrBlock => raw.type === 'table'
+  ? { type: 'table', rows: (raw.rows ?? []).map(row => row.cells), box: toBoundingBox(raw.box_2d) }
+  : {
+      type: raw.type === 'heading' ? 'heading' : 'paragraph',
+      lines: (raw.lines ?? []).map(line => ({ text: line.text, box: toBoundingBox(line.box_2d) })),
+      box: toBoundingBox(raw.box_2d),
+    };
+
+/** Schema for a single template value. Values are nullable so absent fields are not invented. */
+const toValueSchema = ({ type, label, description }: TemplateField | TemplateColumn): Schema => ({
+  type: type === 'number' ? Type.NUMBER : Type.STRING,
+  nullable: true,
+  description: [label, type === 'date' ? 'Date in YYYY-MM-DD format.' : '', description ?? ''].filter(Boolean).join('. '),
+});
+
+/**
+ * Compiles a template's fields into a response schema. Table fields become
+ * arrays of row objects with one property per column.
+ */
+const toResponseSchema = (template: ExtractionTemplate): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(template.fields.map(field => [
+    field.key,
+    field.type === 'table'
+      ? {
+          type: Type.ARRAY,
+          description: [field.label, field.description ?? ''].filter(Boolean).join('. '),
+          items: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries((field.columns ?? []).map(column => [column.key, toValueSchema(column)])),
+          },
+        }
+      : toValueSchema(field),
+  ])),
+  required: template.fields.map(field => field.key),
+});
+
+/**
+ * Creates the Gemini-backed provider. The SDK client is only constructed here,
+ * so a missing key no longer breaks the app at import time.
+ */
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  /**
+   * Analyzes a bill image or PDF and returns structured data.
+   */
+  const analyzeBill = async (
+    base64Data: string, 
+    mimeType: string,
+    model: ScanModel = 'gemini-2.5-flash',
+    signal?: AbortSignal
+  ): Promise<BillData> => {
+    const prompt = "Analyze the provided bill, which is either an image or a PDF. If the bill spans several pages, merge the line items from all pages into one list, skip carried-forward subtotals, and take the totals from the final summary. Extract the merchant name and address, the transaction date and time, the payment method and the currency. Extract all line items, including their name/description, quantity, and price. Also extract the subtotal, each tax line, any discounts, any tip or service charge, and the final total amount. For each line item and for the total, also give the bounding box of where it is printed. Omit fields that do not appear on the bill. Return this information in a structured JSON format.";
+  
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            { inlineData: { data: base64Data, mimeType } },
+            { text: prompt },
+          ],
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              merchantName: { type: Type.STRING, description: "Name of the store, restaurant or business." },
+              merchantAddress: { type: Type.STRING, description: "Address of the merchant as printed on the bill." },
+              transactionDate: { type: Type.STRING, description: "Date of the transaction in YYYY-MM-DD format." },
+              transactionTime: { type: Type.STRING, description: "Time of the transaction in 24-hour HH:MM format." },
+              currency: { type: Type.STRING, description: "ISO 4217 currency code, e.g. 'USD', 'EUR', 'INR'. Infer it from symbols or the address if not printed." },
+              paymentMethod: { type: Type.STRING, description: "How the bill was paid, e.g. 'Cash', 'Visa ****1234'." },
+              items: {
+                type: Type.ARRAY,
+                description: 'List of items purchased.',
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    name: { type: Type.STRING, description: "Name or description of the item." },
+                    quantity: { anyOf: [{type: Type.NUMBER}, {type: Type.STRING}], description: "Quantity of the item. Can be a number or text like '1kg'." },
+                    price: { anyOf: [{type: Type.NUMBER}, {type: Type.STRING}], description: "Total price for this line (quantity times unit price). Can be a number or text with currency." },
+                    box_2d: { ...BOX_2D_SCHEMA, description: "Bounding box of the whole line as [ymin, xmin, ymax, xmax], normalized to 0-1000." },
+                  },
+                  required: ["name", "quantity", "price"],
+                },
+              },
+              subtotal: {
+                anyOf: [{type: Type.NUMBER}, {type: Type.STRING}],
+                description: "Amount before taxes, discounts and tips.",
+              },
+              taxes: {
+                type: Type.ARRAY,
+                description: 'Each tax line on the bill.',
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    label: { type: Type.STRING, description: "Name of the tax, e.g. 'VAT' or 'Sales tax'." },
+                    amount: { anyOf: [{type: Type.NUMBER}, {type: Type.STRING}], description: "Tax amount." },
+                    rate: { type: Type.STRING, description: "Tax rate as printed, e.g. '8.875%'." },
+                  },
+                  required: ["label", "amount"],
+                },
+              },
+              discounts: {
+                type: Type.ARRAY,
+                description: 'Discounts, coupons or promotions applied to the bill.',
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    description: { type: Type.STRING, description: "What the discount is for." },
+                    amount: { anyOf: [{type: Type.NUMBER}, {type: Type.STRING}], description: "Discount amount as a positive value." },
+                  },
+                  required: ["description", "amount"],
+                },
+              },
+              tip: {
+                anyOf: [{type: Type.NUMBER}, {type: Type.STRING}],
+                description: "Tip, gratuity or service charge.",
+              },
+              total: {
+                anyOf: [{type: Type.NUMBER}, {type: Type.STRING}],
+                description: "The total amount of the bill, including currency symbol if present.",
+              },
+              total_box_2d: { ...BOX_2D_SCHEMA, description: "Bounding box of the total line as [ymin, xmin, ymax, xmax], normalized to 0-1000." },
+            },
+            required: ["items", "total"],
+          },
+        },
+      });
+
+      const jsonText = response.text.trim();
+      if (jsonText.startsWith("```json")) {
+          return toBillData(JSON.parse(jsonText.substring(7, jsonText.length - 3).trim()) as RawBillData);
+      }
+      return toBillData(JSON.parse(jsonText) as RawBillData);
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      console.error("Error analyzing bill image:", error);
+
+      if (error instanceof SyntaxError) {
+        throw new Error("Failed to parse the AI's response. The bill might be too blurry, unreadable, or in an unsupported format.");
+      }
+
+      // Check for common API error messages from Gemini
+      if (error.message && error.message.includes('SAFETY')) {
+          throw new Error("The image was blocked for safety reasons. Please use a clear image of a standard bill.");
+      }
+
+      // Generic fallback for other API errors
+      throw new Error("The AI failed to process the image. This could be due to a temporary service issue or an unsupported image. Please try again.");
+    }
+  };
+
+  /**
+   * Extracts plain text from an image using OCR.
+   */
+  const extractTextFromImage = async (
+    base64Data: string,
+    mimeType: string
+  ): Promise<string> => {
+    const prompt = "Extract all text from the provided image. Present the text exactly as it appears, maintaining original line breaks and formatting as much as possible.";
+
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+          parts: [
+            { inlineData: { data: base64Data, mimeType } },
+            { text: prompt },
+          ],
+        },
+      });
+      return response.text;
+    } catch (error: any) {
+      console.error("Error extracting text from image:", error);
+      if (error.message && error.message.includes('SAFETY')) {
+          throw new Error("The image was blocked for safety reasons. Please use a different image.");
+      }
+      throw new Error("The AI failed to process the image. Please try again.");
+    }
+  };
+
+  /**
+   * Extracts text page by page. PDFs are split by the model through a
+   * response schema; an image is returned as a single page.
+   */
+  const extractTextByPage = async (base64Data: string, mimeType: string): Promise<string[]> => {
+    if (mimeType !== 'application/pdf') {
+      return [await extractTextFromImage(base64Data, mimeType)];
+    }
+
+    const prompt = "Extract all text from the provided PDF, one entry per page in page order. Present the text exactly as it appears, maintaining original line breaks and formatting as much as possible.";
+
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+          parts: [
+            { inlineData: { data: base64Data, mimeType } },
+            { text: prompt },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              pages: {
+                type: Type.ARRAY,
+                description: 'The text of each page, in page order.',
+                items: { type: Type.STRING },
+              },
+            },
+            required: ["pages"],
+          },
+        },
+      });
+      return (JSON.parse(response.text.trim()) as { pages: string[] }).pages;
+    } catch (error: any) {
+      console.error("Error extracting text from PDF:", error);
+      if (error instanceof SyntaxError) {
+        throw new Error("Failed to parse the AI's response. Please try again.");
+      }
+      if (error.message && error.message.includes('SAFETY')) {
+          throw new Error("The document was blocked for safety reasons. Please use a different document.");
+      }
+      throw new Error("The AI failed to process the document. Please try again.");
+    }
+  };
+
+
+  /**
+   * Extracts text as layout blocks with bounding boxes, using a response schema.
+   */
+  const extractStructuredText = async (base64Data: string, mimeType: string): Promise<OcrBlock[]> => {
+    const prompt = "Extract all text from the provided image as layout blocks in reading order. Classify each block as a heading, a paragraph or a table. Give the lines of headings and paragraphs exactly as printed, and give tables as rows of cells, keeping empty cells. Include a bounding box for every block and every line.";
+
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+          parts: [
+            { inlineData: { data: base64Data, mimeType } },
+            { text: prompt },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              blocks: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    type: { type: Type.STRING, enum: ['heading', 'paragraph', 'table'] },
+                    box_2d: BOX_2D_SCHEMA,
+                    lines: {
+                      type: Type.ARRAY,
+                      description: 'Lines of a heading or paragraph.',
+                      items: {
+                        type: Type.OBJECT,
+                        properties: { text: { type: Type.STRING }, box_2d: BOX_2D_SCHEMA },
+                        required: ["text"],
+                      },
+                    },
+                    rows: {
+                      type: Type.ARRAY,
+                      description: 'Rows of a table, header row first.',
+                      items: {
+                        type: Type.OBJECT,
+                        properties: { cells: { type: Type.ARRAY, items: { type: Type.STRING } } },
+                        required: ["cells"],
+                      },
+                    },
+                  },
+                  required: ["type", "box_2d"],
+                },
+              },
+            },
+            required: ["blocks"],
+          },
+        },
+      });
+      const { blocks } = JSON.parse(response.text.trim()) as { blocks: RawOcrBlock[] };
+      return blocks.map(toOcrBlock);
+    } catch (error: any) {
+      console.error("Error extracting structured text:", error);
+      if (error instanceof SyntaxError) {
+        throw new Error("Failed to parse the AI's response. Please try again.");
+      }
+      if (error.message && error.message.includes('SAFETY')) {
+          throw new Error("The image was blocked for safety reasons. Please use a different image.");
+      }
+      throw new Error("The AI failed to process the image. Please try again.");
+    }
+  };
+
+  /**
+   * Extracts the fields of a custom template through a schema compiled from it.
+   */
+  const extractWithTemplate = async (
+    base64Data: string,
+    mimeType: string,
+    template: ExtractionTemplate,
+    model: ScanModel = 'gemini-2.5-flash'
+  ): Promise<TemplateResult> => {
+    const prompt = `Analyze the provided document${template.description ? ` (${template.description.replace(/\.$/, '')})` : ''}, which is either an image or a PDF. Extract the requested fields exactly as printed, and give each table as one row per entry. Use null for any field that does not appear on the document. Return this information in a structured JSON format.`;
+
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            { inlineData: { data: base64Data, mimeType } },
+            { text: prompt },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toResponseSchema(template),
+        },
+      });
+      return JSON.parse(response.text.trim()) as TemplateResult;
+    } catch (error: any) {
+      console.error("Error extracting template fields:", error);
+      if (error instanceof SyntaxError) {
+        throw new Error("Failed to parse the AI's response. The document might be too blurry or unreadable.");
+      }
+      if (error.message && error.message.includes('SAFETY')) {
+          throw new Error("The document was blocked for safety reasons. Please use a different document.");
+      }
+      throw new Error("The AI failed to process the document. Please try again.");
+    }
+  };
+
+  /**
+   * Generates an image using Imagen 4.
+   */
+  const generateImage = async (prompt: string, aspectRatio: AspectRatio): Promise<string> => {
+    try {
+      const response = await ai.models.generateImages({
+        model: 'imagen-4.0-generate-001',
+        prompt,
+        config: {
+          numberOfImages: 1,
+          outputMimeType: 'image/jpeg',
+          aspectRatio: aspectRatio,
+        },
+      });
+      if (response.generatedImages && response.generatedImages.length > 0) {
+        return response.generatedImages[0].image.imageBytes;
+      }
+      throw new Error("No image was generated.");
+    } catch (error) {
+      console.error("Error generating image:", error);
+      throw new Error("Gemini API call failed.");
+    }
+  };
+
+  /**
+   * Edits an image based on a text prompt using Gemini 2.5 Flash Image.
+   */
+  const editImage = async (
+    base64Data: string, 
+    mimeType: string, 
+    prompt: string
+  ): Promise<string> => {
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash-image',
+        contents: {
+          parts: [
+            { inlineData: { data: base64Data, mimeType } },
+            { text: prompt },
+          ],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE],
+        },
+      });
+
+      for (const part of response.candidates[0].content.parts) {
+        if (part.inlineData) {
+          return part.inlineData.data;
+        }
+      }
+      throw new Error("No edited image was returned.");
+    } catch (error) {
+      console.error("Error editing image:", error);
+      throw new Error("Gemini API call failed.");
+    }
+  };
+
+  /**
+   * Edits the masked area of an image. The mask is sent as a second image
+   * and the prompt explains how to read it.
+   */
+  const inpaintImage = async (
+    base64Data: string,
+    mimeType: string,
+    maskBase64: string,
+    prompt: string
+  ): Promise<string> => {
+    const instruction = `The second image is a mask for the first: white marks the area to edit and black the area to keep. Apply the following edit only inside the white area, blend it naturally with its surroundings, and leave everything in the black area exactly as it is. Return the full image at the same size.\n\nEdit: ${prompt}`;
+
+    try {
+      const response = await ai.models.generateContent({
+        model: 'gemini-2.5-flash-image',
+        contents: {
+          parts: [
+            { inlineData: { data: base64Data, mimeType } },
+            { inlineData: { data: maskBase64, mimeType: 'image/png' } },
+            { text: instruction },
+          ],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE],
+        },
+      });
+
+      for (const part of response.candidates[0].content.parts) {
+        if (part.inlineData) {
+          return part.inlineData.data;
+        }
+      }
+      throw new Error("No edited image was returned.");
+    } catch (error) {
+      console.error("Error inpainting image:", error);
+      throw new Error("Gemini API call failed.");
+    }
+  };
+
+  /**
+   * Live chat sessions keyed by conversation id, in least-recently-used order.
+   * Capped so long-running pages don't accumulate every conversation's history.
+   */
+  const chatSessions = new Map<string, ChatSession>();
+
+  /**
+   * Builds a chat session seeded with `priorMessages`, using the model and
+   * generation config from `settings`.
+   */
+  const createChatSession = (priorMessages: ChatMessage[], settings: ChatSettings, settingsKey: string): ChatSession => {
+    const config = toGenerateContentConfig(settings);
+    const chat = ai.chats.create({
+        model: settings.model,
+        config,
+        history: priorMessages.map(m => ({
+            role: m.role,
+            parts: toParts(m)
+        }))
+    });
+
+    return { chat, config, settingsKey, syncedMessages: priorMessages };
+  };
+
+  /**
+   * Returns the live session for a conversation, reusing it when it was built
+   * with the same settings and has seen exactly the messages before the last one.
+   * Otherwise (first use, resumed conversation, persona change, edited history)
+   * a new session is created from the full history.
+   */
+  const getChatSession = (history: ChatMessage[], settings: ChatSettings, sessionId?: string): ChatSession => {
+    const priorMessages = history.slice(0, -1);
+    const settingsKey = JSON.stringify(settings);
+    if (!sessionId) return createChatSession(priorMessages, settings, settingsKey);
+
+    const cached = chatSessions.get(sessionId);
+    chatSessions.delete(sessionId);
+    const session = cached && cached.settingsKey === settingsKey && isSameHistory(cached.syncedMessages, priorMessages)
+      ? cached
+      : createChatSession(priorMessages, settings, settingsKey);
+
+    chatSessions.set(sessionId, session);
+    if (chatSessions.size > MAX_CHAT_SESSIONS) {
+      const oldestId = chatSessions.keys().next().value as string;
+      chatSessions.delete(oldestId);
+    }
+    return session;
+  };
+
+  const releaseChatSession = (sessionId: string) => {
+    chatSessions.delete(sessionId);
+  };
+
+  /**
+   * Continues a chat conversation with Gemini.
+   * Uses the model and generation parameters in `settings`.
+   */
+  const continueChat = async (history: ChatMessage[], settings: ChatSettings, options: ChatRequestOptions = {}): Promise<string> => {
+    const { sessionId, signal } = options;
+    try {
+      const session = getChatSession(history, settings, sessionId);
+      const lastMessage = history[history.length - 1];
+      const result = await session.chat.sendMessage({
+        message: toParts(lastMessage),
+        config: { ...session.config, abortSignal: signal },
+      });
+      session.syncedMessages = [...history, { role: 'model', text: result.text }];
+      return result.text;
+    } catch (error) {
+      // The SDK's recorded history may no longer match ours, so start over next turn.
+      if (sessionId) releaseChatSession(sessionId);
+      console.error("Error in chat:", error);
+      throw new Error("Gemini API call failed.");
+    }
+  };
+
+  /**
+   * Streams a chat reply from Gemini, yielding text chunks as they arrive.
+   * Aborting the signal ends the stream quietly, keeping what was already yielded.
+   */
+  const streamChat = async function* (
+    history: ChatMessage[],
+    settings: ChatSettings,
+    options: ChatRequestOptions = {}
+  ): AsyncGenerator<string> {
+    const { sessionId, signal } = options;
+    let replyText = '';
+    try {
+      const session = getChatSession(history, settings, sessionId);
+      const lastMessage = history[history.length - 1];
+      // Per-request config does not inherit the chat's config, so pass it again.
+      const stream = await session.chat.sendMessageStream({
+        message: toParts(lastMessage),
+        config: { ...session.config, abortSignal: signal },
+      });
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        if (chunk.text) {
+          replyText += chunk.text;
+          yield chunk.text;
+        }
+      }
+      if (!signal?.aborted) {
+        session.syncedMessages = [...history, { role: 'model', text: replyText }];
+        return;
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        if (sessionId) releaseChatSession(sessionId);
+        console.error("Error in chat stream:", error);
+        throw new Error("Gemini API call failed.");
+      }
+    }
+    // Stopped early: the partial reply is not in the SDK's history, so rebuild next turn.
+    if (sessionId) releaseChatSession(sessionId);
+  };
+
+  return {
+    name: 'gemini',
+    analyzeBill,
+    extractTextFromImage,
+    extractTextByPage,
+    extractStructuredText,
+    extractWithTemplate,
+    generateImage,
+    editImage,
+    inpaintImage,
+    continueChat,
+    streamChat,
+    releaseChatSession,
+  };
+};
@@ -0,0 +1,240 @@
+import {
+  ChatMessage, ChatSettings, AspectRatio, BillData, ScanModel, OcrBlock, ExtractionTemplate, TemplateColumn, TemplateField, TemplateResult,
+} from '../../types';
+import { AIProvider, ChatRequestOptions } from './types';
+
+// Simulated network latency so loading states are still visible in demos.
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_CHUNK_MS = 60;
+
+/** Waits `ms`, or rejects with an `AbortError` as soon as `signal` is aborted. */
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('The request was aborted.', 'AbortError'));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The request was aborted.', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Small deterministic string hash (djb2) so the same input always yields the same output.
+ */
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const ASPECT_RATIO_SIZES: Record<AspectRatio, [number, number]> = {
+  "1:1": [512, 512],
+  "16:9": [640, 360],
+  "9:16": [360, 640],
+  "4:3": [576, 432],
+  "3:4": [432, 576],
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Failed to load image."));
+  img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  return { canvas, ctx };
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, width: number, height: number, text: string) => {
+  const fontSize = Math.max(14, Math.round(width / 28));
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, height - fontSize * 2, width, fontSize * 2);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillText(text.length > 60 ? `${text.slice(0, 57)}...` : text, width / 2, height - fontSize / 2);
+};
+
+const MOCK_BILL: BillData = {
+  merchantName: "Corner Cafe",
+  merchantAddress: "12 Main Street, Springfield",
+  transactionDate: "2024-05-14",
+  transactionTime: "08:42",
+  currency: "USD",
+  paymentMethod: "Visa ****4242",
+  items: [
+    { name: "Espresso", quantity: 2, price: "$6.00", box: { x: 0.08, y: 0.3, width: 0.84, height: 0.05 } },
+    { name: "Blueberry Muffin", quantity: 1, price: "$3.50", box: { x: 0.08, y: 0.36, width: 0.84, height: 0.05 } },
+    { name: "Orange Juice", quantity: 1, price: "$4.25", box: { x: 0.08, y: 0.42, width: 0.84, height: 0.05 } },
+  ],
+  subtotal: "$13.75",
+  taxes: [{ label: "Sales tax", amount: "$1.10", rate: "8%" }],
+  discounts: [{ description: "Loyalty card", amount: "$1.00" }],
+  tip: "$2.00",
+  total: "$15.85",
+  totalBox: { x: 0.08, y: 0.75, width: 0.84, height: 0.06 },
+};
+
+const MOCK_OCR_TEXT = `Mock OCR Result
+--------------------------------
+This text was produced by the offline mock provider.
+No image was sent to an AI service.
+
+Set AI_PROVIDER=gemini and GEMINI_API_KEY to use Gemini.`;
+
+const MOCK_OCR_BLOCKS: OcrBlock[] = [
+  {
+    type: 'heading',
+    lines: [{ text: 'Mock OCR Result', box: { x: 0.1, y: 0.05, width: 0.5, height: 0.06 } }],
+    box: { x: 0.1, y: 0.05, width: 0.5, height: 0.06 },
+  },
+  {
+    type: 'paragraph',
+    lines: [
+      { text: 'This text was produced by the offline mock provider.', box: { x: 0.1, y: 0.15, width: 0.8, height: 0.05 } },
+      { text: 'No image was sent to an AI service.', box: { x: 0.1, y: 0.21, width: 0.6, height: 0.05 } },
+    ],
+    box: { x: 0.1, y: 0.15, width: 0.8, height: 0.11 },
+  },
+  {
+    type: 'table',
+    rows: [['Item', 'Qty', 'Price'], ['Espresso', '2', '$6.00'], ['Blueberry Muffin', '1', '$3.50']],
+    box: { x: 0.1, y: 0.35, width: 0.8, height: 0.25 },
+  },
+];
+
+/** A plausible placeholder for a template value of the given type. */
+const mockValue = ({ type, label }: TemplateField | TemplateColumn, index = 0) =>
+  type === 'number' ? 12.5 * (index + 1) : type === 'date' ? `2024-05-0${index + 1}` : `Mock ${label.toLowerCase()}${index ? ` ${index + 1}` : ''}`;
+
+/**
+ * Creates an offline provider that returns canned, deterministic results.
+ * Used for development, demos and testing without an API key.
+ */
+export const createMockProvider = (): AIProvider => {
+  const analyzeBill = async (_base64Data: string, _mimeType: string, _model?: ScanModel, signal?: AbortSignal): Promise<BillData> => {
+    await delay(MOCK_LATENCY_MS, signal);
+    // Return a fresh copy so edits in the UI never mutate the fixture.
+    return JSON.parse(JSON.stringify(MOCK_BILL)) as BillData;
+  };
+
+  const extractTextFromImage = async (_base64Data: string, _mimeType: string): Promise<string> => {
+    await delay(MOCK_LATENCY_MS);
+    return MOCK_OCR_TEXT;
+  };
+
+  const extractTextByPage = async (base64Data: string, mimeType: string): Promise<string[]> => {
+    const text = await extractTextFromImage(base64Data, mimeType);
+    // Pretend every PDF has two pages so the page view can be exercised.
+    return mimeType === 'application/pdf' ? [text, 'Mock OCR Result\n--------------------------------\nPage 2 of the mock document.'] : [text];
+  };
+
+  const extractStructuredText = async (_base64Data: string, _mimeType: string): Promise<OcrBlock[]> => {
+    await delay(MOCK_LATENCY_MS);
+    return JSON.parse(JSON.stringify(MOCK_OCR_BLOCKS)) as OcrBlock[];
+  };
+
+  const extractWithTemplate = async (_base64Data: string, _mimeType: string, template: ExtractionTemplate): Promise<TemplateResult> => {
+    await delay(MOCK_LATENCY_MS);
+    return Object.fromEntries(template.fields.map(field => [
+      field.key,
+      field.type === 'table'
+        ? [0, 1].map(row => Object.fromEntries((field.columns ?? []).map(column => [column.key, mockValue(column, row)])))
+        : mockValue(field),
+    ]));
+  };
+
+  const generateImage = async (prompt: string, aspectRatio: AspectRatio): Promise<string> => {
+    await delay(MOCK_LATENCY_MS);
+    const [width, height] = ASPECT_RATIO_SIZES[aspectRatio];
+    const { canvas, ctx } = createCanvas(width, height);
+
+    const hue = hashString(prompt) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 25%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+    drawCaption(ctx, width, height, prompt);
+
+    return canvas.toDataURL('image/jpeg').split(',')[1];
+  };
+
+  const editImage = async (base64Data: string, mimeType: string, prompt: string): Promise<string> => {
+    await delay(MOCK_LATENCY_MS);
+    const img = await loadImage(`data:${mimeType};base64,${base64Data}`);
+    const { canvas, ctx } = createCanvas(img.width, img.height);
+
+    // A fixed, visible transformation stands in for the AI edit.
+    ctx.filter = 'sepia(0.6)';
+    ctx.drawImage(img, 0, 0);
+    ctx.filter = 'none';
+    drawCaption(ctx, img.width, img.height, `Mock edit: ${prompt}`);
+
+    return canvas.toDataURL('image/png').split(',')[1];
+  };
+
+  // The mock ignores the mask and edits everything; compositing keeps the edit inside it.
+  const inpaintImage = async (base64Data: string, mimeType: string, _maskBase64: string, prompt: string): Promise<string> =>
+    editImage(base64Data, mimeType, prompt);
+
+  const continueChat = async (history: ChatMessage[], settings: ChatSettings, options: ChatRequestOptions = {}): Promise<string> => {
+    await delay(settings.thinkingBudget ? MOCK_LATENCY_MS * 2 : MOCK_LATENCY_MS, options.signal);
+    const lastMessage = history[history.length - 1];
+    const turn = history.filter(m => m.role === 'user').length;
+    const attachmentCount = lastMessage?.attachments?.length ?? 0;
+    const attachmentNote = attachmentCount > 0 ? ` (with ${attachmentCount} attachment${attachmentCount === 1 ? '' : 's'})` : '';
+    const persona = settings.systemInstruction ? ` as "${settings.systemInstruction.slice(0, 40)}"` : '';
+    return `[Mock ${settings.model} reply #${turn}${persona}] You said${attachmentNote}: "${lastMessage?.text ?? ''}"\n\nThis response comes from the offline mock provider.`;
+  };
+
+  const streamChat = async function* (
+    history: ChatMessage[],
+    settings: ChatSettings,
+    options: ChatRequestOptions = {}
+  ): AsyncGenerator<string> {
+    const { signal } = options;
+    try {
+      const reply = await continueChat(history, settings, { signal });
+      // Emit word by word (keeping whitespace) to mimic token streaming.
+      for (const chunk of reply.match(/\S+\s*/g) ?? []) {
+        await delay(MOCK_STREAM_CHUNK_MS, signal);
+        yield chunk;
+      }
+    } catch (error) {
+      // Like the Gemini provider, a stopped stream ends quietly.
+      if (!signal?.aborted) throw error;
+    }
+  };
+
+  return {
+    name: 'mock',
+    analyzeBill,
+    extractTextFromImage,
+    extractTextByPage,
+    extractStructuredText,
+    extractWithTemplate,
+    generateImage,
+    editImage,
+    inpaintImage,
+    continueChat,
+    streamChat,
+    // The mock is stateless, so there is no session to release.
+    releaseChatSession: () => {},
+  };
+};
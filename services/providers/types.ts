@@ -0,0 +1,40 @@
+import { ChatMessage, ChatSettings, AspectRatio, BillData, ScanModel, OcrBlock, ExtractionTemplate, TemplateResult } from '../../types';
+
+export type AIProviderName = 'gemini' | 'mock';
+
+export interface ChatRequestOptions {
+  /** Identifies the conversation, so its live chat session can be reused across turns. */
+  sessionId?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * The set of AI capabilities the app's tools depend on.
+ * Every backend (Gemini, the offline mock, ...) implements this interface.
+ */
+export interface AIProvider {
+  name: AIProviderName;
+  /** Aborting `signal` cancels the request, which then rejects. */
+  analyzeBill(base64Data: string, mimeType: string, model?: ScanModel, signal?: AbortSignal): Promise<BillData>;
+  extractTextFromImage(base64Data: string, mimeType: string): Promise<string>;
+  /** Returns the text of each page of a document, e.g. a PDF. An image is a single page. */
+  extractTextByPage(base64Data: string, mimeType: string): Promise<string[]>;
+  /** Returns the text of an image as layout blocks, in reading order, with their positions. */
+  extractStructuredText(base64Data: string, mimeType: string): Promise<OcrBlock[]>;
+  /** Returns the fields of `template` as found in the document. */
+  extractWithTemplate(base64Data: string, mimeType: string, template: ExtractionTemplate, model?: ScanModel): Promise<TemplateResult>;
+  /** Returns the generated image as base64-encoded JPEG data. */
+  generateImage(prompt: string, aspectRatio: AspectRatio): Promise<string>;
+  /** Returns the edited image as base64-encoded PNG data. */
+  editImage(base64Data: string, mimeType: string, prompt: string): Promise<string>;
+  /**
+   * Edits the area of an image marked by a mask, a base64 PNG of the same size
+   * that is white where changes are allowed. Returns base64-encoded PNG data.
+   */
+  inpaintImage(base64Data: string, mimeType: string, maskBase64: string, prompt: string): Promise<string>;
+  continueChat(history: ChatMessage[], settings: ChatSettings, options?: ChatRequestOptions): Promise<string>;
+  /** Yields the reply in chunks as it is generated. Ends early, without error, once `signal` aborts. */
+  streamChat(history: ChatMessage[], settings: ChatSettings, options?: ChatRequestOptions): AsyncGenerator<string>;
+  /** Drops any live chat session held for `sessionId`. */
+  releaseChatSession(sessionId: string): void;
+}
@@ -0,0 +1,123 @@
+import { ScanHistoryItem } from '../types';
+import { parseAmount } from './billAmounts';
+
+/**
+ * Criteria for narrowing the scan history. Fields hold raw form values; an
+ * empty string means "any".
+ */
+export interface ScanFilter {
+  /** Words that must all appear in the merchant, item names or tags. */
+  query: string;
+  /** Inclusive date range as YYYY-MM-DD. */
+  fromDate: string;
+  toDate: string;
+  minAmount: string;
+  maxAmount: string;
+  tag: string;
+}
+
+export const EMPTY_SCAN_FILTER: ScanFilter = { query: '', fromDate: '', toDate: '', minAmount: '', maxAmount: '', tag: '' };
+
+/** Totals for one tag or month, in a single currency. */
+export interface SpendingTotal {
+  key: string;
+  currency: string;
+  total: number;
+  count: number;
+}
+
+export interface SpendingSummary {
+  byTag: SpendingTotal[];
+  byMonth: SpendingTotal[];
+}
+
+export const UNTAGGED_KEY = 'Untagged';
+
+export const isFilterActive = (filter: ScanFilter): boolean =>
+  Object.values(filter).some(value => value.trim() !== '');
+
+const toLocalDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * The date a scan is filed under: the transaction date on the bill when the
+ * model found one, otherwise the day it was scanned.
+ */
+export const getScanDate = (scan: ScanHistoryItem): string =>
+  scan.billData.transactionDate && /^\d{4}-\d{2}-\d{2}$/.test(scan.billData.transactionDate)
+    ? scan.billData.transactionDate
+    : toLocalDate(scan.timestamp);
+
+/**
+ * Trims a tag and drops it if another tag already matches it ignoring case.
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.map(tag => tag.trim()).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const matchesFilter = (scan: ScanHistoryItem, filter: ScanFilter): boolean => {
+  const { billData } = scan;
+
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length > 0) {
+    const haystack = [billData.merchantName ?? '', ...billData.items.map(item => item.name), ...(scan.tags ?? [])]
+      .join(' ')
+      .toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) return false;
+  }
+
+  const date = getScanDate(scan);
+  if (filter.fromDate && date < filter.fromDate) return false;
+  if (filter.toDate && date > filter.toDate) return false;
+
+  if (filter.minAmount || filter.maxAmount) {
+    const total = parseAmount(billData.total).value;
+    if (total === null) return false;
+    if (filter.minAmount && total < Number(filter.minAmount)) return false;
+    if (filter.maxAmount && total > Number(filter.maxAmount)) return false;
+  }
+
+  if (filter.tag && !(scan.tags ?? []).some(tag => tag.toLowerCase() === filter.tag.toLowerCase())) return false;
+
+  return true;
+};
+
+const addToTotals = (totals: Map<string, SpendingTotal>, key: string, currency: string, amount: number) => {
+  const mapKey = `${key}\u0000${currency}`;
+  const entry = totals.get(mapKey) ?? { key, currency, total: 0, count: 0 };
+  entry.total += amount;
+  entry.count += 1;
+  totals.set(mapKey, entry);
+};
+
+/**
+ * Adds up bill totals per tag and per month. Amounts in different currencies
+ * are kept apart rather than summed, and bills with an unreadable total are skipped.
+ */
+export const summarizeSpending = (scans: ScanHistoryItem[]): SpendingSummary => {
+  const byTag = new Map<string, SpendingTotal>();
+  const byMonth = new Map<string, SpendingTotal>();
+
+  for (const scan of scans) {
+    const parsed = parseAmount(scan.billData.total);
+    if (parsed.value === null) continue;
+    const currency = scan.billData.currency || parsed.currency || '';
+
+    const tags = scan.tags && scan.tags.length > 0 ? scan.tags : [UNTAGGED_KEY];
+    tags.forEach(tag => addToTotals(byTag, tag, currency, parsed.value!));
+    addToTotals(byMonth, getScanDate(scan).slice(0, 7), currency, parsed.value);
+  }
+
+  return {
+    byTag: [...byTag.values()].sort((a, b) => a.key.localeCompare(b.key) || a.currency.localeCompare(b.currency)),
+    byMonth: [...byMonth.values()].sort((a, b) => b.key.localeCompare(a.key) || a.currency.localeCompare(b.currency)),
+  };
+};
@@ -0,0 +1,222 @@
+import { BillData, ScanHistoryItem, ScanModel } from '../types';
+import { SCAN_HISTORY_STORE, TIMESTAMP_INDEX, promisifyRequest, withStore } from './db';
+import { createId } from './ids';
+import { EMPTY_SCAN_FILTER, ScanFilter, isFilterActive, matchesFilter, normalizeTags } from './scanFilters';
+
+/** The localStorage key used by earlier versions, which kept at most 10 scans. */
+const LEGACY_HISTORY_KEY = 'billScannerHistory';
+const RETENTION_POLICY_KEY = 'billScannerRetention';
+const THUMBNAIL_SIZE = 160;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HISTORY_PAGE_SIZE = 20;
+
+/**
+ * Limits on how much scan history is kept. A null limit means "no limit".
+ */
+export interface RetentionPolicy {
+  maxItems: number | null;
+  maxAgeDays: number | null;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = { maxItems: 500, maxAgeDays: null };
+
+export interface ScanHistoryPage {
+  items: ScanHistoryItem[];
+  hasMore: boolean;
+}
+
+type LegacyScan = Omit<ScanHistoryItem, 'image' | 'thumbnail'> & { imageDataUrl: string };
+
+export const loadRetentionPolicy = (): RetentionPolicy => {
+  try {
+    const stored = localStorage.getItem(RETENTION_POLICY_KEY);
+    return stored ? { ...DEFAULT_RETENTION_POLICY, ...JSON.parse(stored) } : DEFAULT_RETENTION_POLICY;
+  } catch (e) {
+    console.error("Failed to read the history retention policy", e);
+    return DEFAULT_RETENTION_POLICY;
+  }
+};
+
+export const saveRetentionPolicy = (policy: RetentionPolicy) => {
+  localStorage.setItem(RETENTION_POLICY_KEY, JSON.stringify(policy));
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Renders a small JPEG preview of an image, cropped to a square. PDFs cannot
+ * be drawn without a renderer, so they get a generic document icon.
+ */
+export const createThumbnail = async (image: Blob): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create a thumbnail for this image.");
+
+  if (image.type === 'application/pdf') {
+    ctx.fillStyle = '#374151';
+    ctx.fillRect(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+    ctx.fillStyle = '#F9FAFB';
+    ctx.fillRect(THUMBNAIL_SIZE * 0.25, THUMBNAIL_SIZE * 0.15, THUMBNAIL_SIZE * 0.5, THUMBNAIL_SIZE * 0.7);
+    ctx.fillStyle = '#DC2626';
+    ctx.font = `bold ${THUMBNAIL_SIZE * 0.16}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('PDF', THUMBNAIL_SIZE / 2, THUMBNAIL_SIZE / 2);
+  } else {
+    const bitmap = await createImageBitmap(image);
+    const side = Math.min(bitmap.width, bitmap.height);
+    ctx.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+    bitmap.close();
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not create a thumbnail for this image.")), 'image/jpeg', 0.8);
+  });
+};
+
+/**
+ * Builds a history entry for a fresh scan. It is not persisted until saved.
+ */
+export const createScanRecord = async (imageDataUrl: string, billData: BillData, model?: ScanModel): Promise<ScanHistoryItem> => {
+  const image = await dataUrlToBlob(imageDataUrl);
+  return {
+    id: createId(),
+    image,
+    thumbnail: await createThumbnail(image),
+    billData,
+    originalBillData: billData,
+    model,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Loads one page of the history entries that match `filter`, newest first.
+ * `offset` counts matching entries, so it is simply the number already loaded.
+ */
+export const listScans = (offset: number, limit: number = HISTORY_PAGE_SIZE, filter: ScanFilter = EMPTY_SCAN_FILTER): Promise<ScanHistoryPage> =>
+  withStore(SCAN_HISTORY_STORE, 'readonly', store => new Promise<ScanHistoryPage>((resolve, reject) => {
+    const items: ScanHistoryItem[] = [];
+    const filtered = isFilterActive(filter);
+    let skipped = 0;
+    const request = store.index(TIMESTAMP_INDEX).openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      // Read one extra match to learn whether another page exists.
+      if (!cursor || items.length > limit) {
+        resolve({ items: items.slice(0, limit), hasMore: items.length > limit });
+        return;
+      }
+      if (!filtered && skipped < offset) {
+        skipped = offset;
+        cursor.advance(offset);
+        return;
+      }
+      if (!filtered || matchesFilter(cursor.value, filter)) {
+        if (skipped < offset) {
+          skipped++;
+        } else {
+          items.push(cursor.value);
+        }
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  }));
+
+/**
+ * Loads every history entry that matches `filter`, newest first.
+ */
+export const listAllScans = async (filter: ScanFilter = EMPTY_SCAN_FILTER): Promise<ScanHistoryItem[]> => {
+  const scans = await withStore(SCAN_HISTORY_STORE, 'readonly', store =>
+    promisifyRequest(store.getAll() as IDBRequest<ScanHistoryItem[]>)
+  );
+  return scans.filter(scan => matchesFilter(scan, filter)).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Returns every tag used in the history, sorted alphabetically.
+ */
+export const listTags = async (): Promise<string[]> => {
+  const scans = await listAllScans();
+  return normalizeTags(scans.flatMap(scan => scan.tags ?? [])).sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Inserts or replaces a history entry.
+ */
+export const saveScan = async (scan: ScanHistoryItem): Promise<void> => {
+  await withStore(SCAN_HISTORY_STORE, 'readwrite', store => promisifyRequest(store.put(scan)));
+};
+
+export const clearScans = async (): Promise<void> => {
+  await withStore(SCAN_HISTORY_STORE, 'readwrite', store => promisifyRequest(store.clear()));
+};
+
+/**
+ * Deletes history entries that fall outside `policy` and returns their ids.
+ */
+export const applyRetentionPolicy = (policy: RetentionPolicy): Promise<string[]> =>
+  withStore(SCAN_HISTORY_STORE, 'readwrite', async store => {
+    const index = store.index(TIMESTAMP_INDEX);
+    const expired = new Set<string>();
+
+    if (policy.maxAgeDays !== null) {
+      const cutoff = Date.now() - policy.maxAgeDays * DAY_MS;
+      const keys = await promisifyRequest(index.getAllKeys(IDBKeyRange.upperBound(cutoff, true)));
+      keys.forEach(key => expired.add(key as string));
+    }
+    if (policy.maxItems !== null) {
+      // Keys come back oldest first, so the excess is at the front.
+      const keys = await promisifyRequest(index.getAllKeys());
+      keys.slice(0, Math.max(0, keys.length - policy.maxItems)).forEach(key => expired.add(key as string));
+    }
+
+    await Promise.all([...expired].map(key => promisifyRequest(store.delete(key))));
+    return [...expired];
+  });
+
+/**
+ * Moves history saved in localStorage by earlier versions into IndexedDB, then
+ * removes the old key. Entries that fail to convert are skipped.
+ */
+export const migrateLegacyHistory = async (): Promise<void> => {
+  const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!stored) return;
+
+  let legacyScans: LegacyScan[];
+  try {
+    legacyScans = JSON.parse(stored);
+  } catch (e) {
+    console.error("Failed to parse history from localStorage", e);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return;
+  }
+
+  // Convert everything first: the store transaction must not wait on image decoding.
+  const scans: ScanHistoryItem[] = [];
+  for (const { imageDataUrl, ...scan } of legacyScans) {
+    try {
+      const image = await dataUrlToBlob(imageDataUrl);
+      scans.push({ ...scan, image, thumbnail: await createThumbnail(image) });
+    } catch (e) {
+      console.error(`Failed to migrate scan ${scan.id}`, e);
+    }
+  }
+
+  await withStore(SCAN_HISTORY_STORE, 'readwrite', store =>
+    Promise.all(scans.map(scan => promisifyRequest(store.put(scan))))
+  );
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
@@ -0,0 +1,78 @@
+import { BillData, ScanHistoryItem } from '../types';
+
+/** `cancelling` is a cancelled scan whose request has not returned yet; it still takes a slot. */
+export type ScanQueueStatus = 'queued' | 'scanning' | 'cancelling' | 'done' | 'failed' | 'cancelled';
+
+/** One file waiting for, or finished with, a batch scan. */
+export interface ScanQueueItem {
+  id: string;
+  file: File;
+  status: ScanQueueStatus;
+  error?: string;
+  /** The model's result, kept so that a failed save is retried without scanning again. */
+  analysis?: { imageDataUrl: string; billData: BillData };
+  /** The history entry the scan was saved as, once done. */
+  scan?: ScanHistoryItem;
+}
+
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+export const MAX_QUEUE_CONCURRENCY = 5;
+
+let nextQueueId = 0;
+
+export const createQueueItems = (files: File[]): ScanQueueItem[] =>
+  files.map(file => ({ id: `queue-${nextQueueId++}`, file, status: 'queued' }));
+
+export const isFinished = (item: ScanQueueItem): boolean =>
+  item.status === 'done' || item.status === 'failed' || item.status === 'cancelled';
+
+/** The status an unfinished item takes when cancelled: a running scan waits for its request to end. */
+export const cancelledStatus = (item: ScanQueueItem): ScanQueueStatus =>
+  item.status === 'queued' ? 'cancelled' : 'cancelling';
+
+/**
+ * Picks the queued items that can start now without running more than
+ * `concurrency` scans at once, oldest first.
+ */
+export const nextQueueItems = (queue: ScanQueueItem[], concurrency: number): ScanQueueItem[] => {
+  const running = queue.filter(item => item.status === 'scanning' || item.status === 'cancelling').length;
+  return queue.filter(item => item.status === 'queued').slice(0, Math.max(0, concurrency - running));
+};
+
+const isScannableFile = (file: File): boolean => file.type.startsWith('image/') || file.type === 'application/pdf';
+
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+  }
+  if (!entry.isDirectory) return [];
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns the directory in chunks and an empty list at the end.
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) break;
+    entries.push(...chunk);
+  }
+  const nested = await Promise.all(entries.map(readEntryFiles));
+  return nested.flat();
+};
+
+/**
+ * Collects the images and PDFs from a drop, descending into dropped folders.
+ * Browsers without directory entries fall back to the plain file list.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  const files = entries.length > 0
+    ? (await Promise.all(entries.map(readEntryFiles))).flat()
+    : Array.from(dataTransfer.files);
+
+  return files
+    .filter(isScannableFile)
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
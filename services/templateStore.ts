@@ -0,0 +1,140 @@
+import { ExtractionTemplate, TemplateField, TemplateResult } from '../types';
+import { TEMPLATES_STORE, promisifyRequest, withStore } from './db';
+import { createId } from './ids';
+
+export const BILL_TEMPLATE_ID = 'builtin-bill';
+
+/**
+ * Templates that always exist. The bill template describes what `analyzeBill`
+ * returns; scanning with it keeps the dedicated bill view and history.
+ */
+export const BUILT_IN_TEMPLATES: ExtractionTemplate[] = [
+  {
+    id: BILL_TEMPLATE_ID,
+    name: 'Bill / receipt',
+    builtIn: true,
+    description: 'A bill, receipt or invoice.',
+    fields: [
+      { key: 'merchantName', label: 'Merchant', type: 'text' },
+      { key: 'transactionDate', label: 'Date', type: 'date' },
+      { key: 'currency', label: 'Currency', type: 'text' },
+      {
+        key: 'items', label: 'Items', type: 'table', columns: [
+          { key: 'name', label: 'Item', type: 'text' },
+          { key: 'quantity', label: 'Qty', type: 'number' },
+          { key: 'price', label: 'Price', type: 'number' },
+        ],
+      },
+      { key: 'total', label: 'Total', type: 'number' },
+    ],
+  },
+  {
+    id: 'builtin-business-card',
+    name: 'Business card',
+    builtIn: true,
+    description: 'A business card.',
+    fields: [
+      { key: 'name', label: 'Name', type: 'text' },
+      { key: 'jobTitle', label: 'Job title', type: 'text' },
+      { key: 'company', label: 'Company', type: 'text' },
+      { key: 'email', label: 'Email', type: 'text' },
+      { key: 'phone', label: 'Phone', type: 'text', description: 'Including the country code if printed.' },
+      { key: 'website', label: 'Website', type: 'text' },
+      { key: 'address', label: 'Address', type: 'text' },
+    ],
+  },
+  {
+    id: 'builtin-id-form',
+    name: 'ID form',
+    builtIn: true,
+    description: 'An identity document or a form with personal details.',
+    fields: [
+      { key: 'fullName', label: 'Full name', type: 'text' },
+      { key: 'dateOfBirth', label: 'Date of birth', type: 'date' },
+      { key: 'documentNumber', label: 'Document number', type: 'text' },
+      { key: 'nationality', label: 'Nationality', type: 'text' },
+      { key: 'issueDate', label: 'Issue date', type: 'date' },
+      { key: 'expiryDate', label: 'Expiry date', type: 'date' },
+      { key: 'address', label: 'Address', type: 'text' },
+    ],
+  },
+  {
+    id: 'builtin-shipping-label',
+    name: 'Shipping label',
+    builtIn: true,
+    description: 'A parcel shipping label.',
+    fields: [
+      { key: 'carrier', label: 'Carrier', type: 'text' },
+      { key: 'trackingNumber', label: 'Tracking number', type: 'text' },
+      { key: 'sender', label: 'Sender', type: 'text', description: 'Name and address of the sender.' },
+      { key: 'recipient', label: 'Recipient', type: 'text', description: 'Name and address of the recipient.' },
+      { key: 'shipDate', label: 'Ship date', type: 'date' },
+      { key: 'weight', label: 'Weight', type: 'text', description: 'With its unit, e.g. "2.5 kg".' },
+    ],
+  },
+  {
+    id: 'builtin-bank-statement',
+    name: 'Bank statement',
+    builtIn: true,
+    description: 'A bank account statement.',
+    fields: [
+      { key: 'bankName', label: 'Bank', type: 'text' },
+      { key: 'accountHolder', label: 'Account holder', type: 'text' },
+      { key: 'accountNumber', label: 'Account number', type: 'text' },
+      { key: 'periodStart', label: 'Period start', type: 'date' },
+      { key: 'periodEnd', label: 'Period end', type: 'date' },
+      { key: 'openingBalance', label: 'Opening balance', type: 'number' },
+      { key: 'closingBalance', label: 'Closing balance', type: 'number' },
+      {
+        key: 'transactions', label: 'Transactions', type: 'table', columns: [
+          { key: 'date', label: 'Date', type: 'date' },
+          { key: 'description', label: 'Description', type: 'text' },
+          { key: 'amount', label: 'Amount', type: 'number', description: 'Negative for debits.' },
+        ],
+      },
+    ],
+  },
+];
+
+export const createTemplate = (): ExtractionTemplate => ({
+  id: createId(),
+  name: 'New template',
+  fields: [{ key: 'field1', label: 'Field 1', type: 'text' }],
+});
+
+/**
+ * Loads the built-in templates followed by the user's saved ones.
+ */
+export const listTemplates = async (): Promise<ExtractionTemplate[]> => {
+  const saved = await withStore(TEMPLATES_STORE, 'readonly', store =>
+    promisifyRequest(store.getAll() as IDBRequest<ExtractionTemplate[]>)
+  );
+  return [...BUILT_IN_TEMPLATES, ...saved.sort((a, b) => a.name.localeCompare(b.name))];
+};
+
+export const saveTemplate = async (template: ExtractionTemplate): Promise<void> => {
+  if (template.builtIn) throw new Error("Built-in templates cannot be modified.");
+  await withStore(TEMPLATES_STORE, 'readwrite', store => promisifyRequest(store.put(template)));
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  await withStore(TEMPLATES_STORE, 'readwrite', store => promisifyRequest(store.delete(id)));
+};
+
+/**
+ * Turns a label into a result key, e.g. "Tracking number" -> "trackingNumber".
+ * Letters of any script are kept; `fallback` is used when none are left.
+ */
+export const toFieldKey = (label: string, fallback: string): string => {
+  const words = label.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const key = words.map((word, i) => i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('');
+  if (!key) return fallback;
+  return /^\p{N}/u.test(key) ? `field${key}` : key;
+};
+
+/**
+ * A result with every field present, so the form has something to edit even
+ * when the model left a field out.
+ */
+export const emptyTemplateResult = (fields: TemplateField[]): TemplateResult =>
+  Object.fromEntries(fields.map(field => [field.key, field.type === 'table' ? [] : null]));
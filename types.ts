@@ -1,12 +1,83 @@
+export interface ChatAttachment {
+  /** Base64-encoded file contents, without the data URL prefix. */
+  data: string;
+  mimeType: string;
+  name?: string;
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  attachments?: ChatAttachment[];
+}
+
+export const CHAT_MODELS = ['gemini-flash-lite-latest', 'gemini-2.5-flash', 'gemini-2.5-pro'] as const;
+export type ChatModel = typeof CHAT_MODELS[number];
+
+/** Models that can analyze bills, fastest first. */
+export const SCAN_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro'] as const;
+export type ScanModel = typeof SCAN_MODELS[number];
+
+/**
+ * Model and generation parameters for a chat request.
+ * Optional values fall back to the model's defaults.
+ */
+export interface ChatSettings {
+  model: ChatModel;
+  systemInstruction?: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  /** Token budget for thinking; -1 lets the model decide. */
+  thinkingBudget?: number;
+}
+
+/**
+ * A saved, reusable chat configuration selectable per conversation.
+ */
+export interface Persona extends ChatSettings {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+}
+
+/**
+ * A message in a conversation tree. Editing or regenerating a message adds a
+ * sibling node, so every alternative is kept as its own branch.
+ */
+export interface ChatNode {
+  id: string;
+  parentId: string | null;
+  message: ChatMessage;
+  childIds: string[];
+  /** The child on the active branch, or null for a leaf. */
+  activeChildId: string | null;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  personaId: string;
+  nodes: Record<string, ChatNode>;
+  /** Top-level messages; more than one when the first message was edited. */
+  rootIds: string[];
+  activeRootId: string | null;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export const ASPECT_RATIOS = ["1:1", "16:9", "9:16", "4:3", "3:4"] as const;
 export type AspectRatio = typeof ASPECT_RATIOS[number];
 
 // New types for BillScanner
+/** A region of an image, as fractions (0–1) of its width and height. */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface BillItem {
   name: string;
   quantity: number | string;
@@ -23,20 +94,112 @@ export interface BillItem {
   priceBold?: boolean;
   priceItalic?: boolean;
   priceUnderline?: boolean;
+  /** Where the line is printed on the scanned image. */
+  box?: BoundingBox;
+}
+
+export interface BillTaxLine {
+  /** e.g. "VAT", "Sales tax", "GST". */
+  label: string;
+  amount: number | string;
+  /** Rate as printed on the bill, e.g. "8.875%". */
+  rate?: string;
+}
+
+export interface BillDiscount {
+  description: string;
+  amount: number | string;
 }
 
 export interface BillData {
+  merchantName?: string;
+  merchantAddress?: string;
+  /** Transaction date as YYYY-MM-DD. */
+  transactionDate?: string;
+  /** Transaction time as HH:MM (24-hour). */
+  transactionTime?: string;
+  /** ISO 4217 currency code, e.g. "USD". */
+  currency?: string;
+  paymentMethod?: string;
   items: BillItem[];
+  subtotal?: number | string;
+  taxes?: BillTaxLine[];
+  discounts?: BillDiscount[];
+  /** Tip, gratuity or service charge. */
+  tip?: number | string;
   total: number | string;
+  /** Where the total is printed on the scanned image. */
+  totalBox?: BoundingBox;
   // Formatting for total
   totalBold?: boolean;
   totalItalic?: boolean;
   totalUnderline?: boolean;
 }
 
+export interface OcrLine {
+  text: string;
+  box?: BoundingBox;
+}
+
+/** A layout block found by structured OCR. Tables keep their cell grid. */
+export type OcrBlock =
+  | { type: 'heading' | 'paragraph'; lines: OcrLine[]; box?: BoundingBox }
+  | { type: 'table'; rows: string[][]; box?: BoundingBox };
+
+export type TemplateFieldType = 'text' | 'number' | 'date' | 'table';
+
+/** A column of a table field; columns hold single values. */
+export interface TemplateColumn {
+  /** Key in the extracted result, e.g. "amount". */
+  key: string;
+  label: string;
+  type: Exclude<TemplateFieldType, 'table'>;
+  description?: string;
+}
+
+export interface TemplateField {
+  /** Key in the extracted result, e.g. "trackingNumber". */
+  key: string;
+  label: string;
+  type: TemplateFieldType;
+  /** Extra guidance for the model, e.g. "as printed, including the country code". */
+  description?: string;
+  /** The columns of a `table` field. */
+  columns?: TemplateColumn[];
+}
+
+/**
+ * A user-defined list of fields to extract from a document, e.g. a business
+ * card or a shipping label.
+ */
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  /** What kind of document this is, to give the model context. */
+  description?: string;
+  fields: TemplateField[];
+  builtIn?: boolean;
+}
+
+export type TemplateValue = string | number | null;
+export type TemplateRow = Record<string, TemplateValue>;
+/** Values extracted with a template, keyed by field. Table fields hold rows. */
+export type TemplateResult = Record<string, TemplateValue | TemplateRow[]>;
+
 export interface ScanHistoryItem {
   id: string;
-  imageDataUrl: string;
+  /** The scanned image or PDF, exactly as it was sent for analysis. */
+  image: Blob;
+  /** A small JPEG preview for the history list. */
+  thumbnail: Blob;
   billData: BillData;
+  /** The bill exactly as the model first extracted it, before any edits. */
+  originalBillData?: BillData;
+  /** The model that produced `originalBillData`. */
+  model?: ScanModel;
+  /** User-defined tags or categories, e.g. "Travel". */
+  tags?: string[];
   timestamp: number;
+  /** When the entry was last changed after the scan, if ever. */
+  lastModified?: number;
 }